@@ -0,0 +1,80 @@
+// Renders the default details and state templates for every kind of editor, so a default that leaves dangling
+// text (e.g. "in , line /") behind when a value is missing is caught before it ships.
+// Usage: node scripts/check-templates.mjs
+import { readFile } from 'node:fs/promises';
+import esbuild from 'esbuild';
+
+const { outputFiles } = await esbuild.build({
+    entryPoints: ['src/template.ts'],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    write: false,
+});
+const { renderTemplate, templateKeys } = await import(
+    `data:text/javascript;base64,${Buffer.from(outputFiles[0].text).toString('base64')}`
+);
+
+const { contributes } = JSON.parse(await readFile('package.json', 'utf8'));
+const templates = Object.entries(contributes.configuration.properties)
+    .filter(([key, { type, default: value }]) => /^vscodeStatus\.(details|state)[A-Z]/.test(key) && type === 'string' && value)
+    .map(([key, { default: value }]) => [key, value]);
+
+// The modes each template is rendered in, state lines of tasks, tests and terminals use State Editing
+const TEMPLATE_MODES = {
+    stateEditing: ['editing', 'task', 'testing', 'terminal'],
+    stateDebugging: ['debugging'],
+    stateIdling: ['idling'],
+};
+const templateModes = (key) => {
+    const name = key.replace('vscodeStatus.', '');
+    return TEMPLATE_MODES[name] ?? [name.replace(/^details/, '').toLowerCase()];
+};
+
+const EDITOR_MODES = ['editing', 'debugging', 'task', 'testing', 'terminal', 'idling'];
+const base = { '{workspace}': 'vscode-status', '{git_branch}': 'main', '{task_name}': 'npm: build' };
+const scenarios = {
+    'text editor': {
+        modes: EDITOR_MODES,
+        values: { ...base, '{file_name}': 'extension.ts', '{current_line}': '12', '{total_lines}': '340', '{current_column}': '5' },
+    },
+    'file outside of the workspace and git': {
+        modes: EDITOR_MODES,
+        values: { '{workspace}': 'No workspace', '{task_name}': 'npm: build', '{file_name}': 'notes.txt', '{current_line}': '1', '{total_lines}': '3' },
+    },
+    'image or custom editor': { modes: EDITOR_MODES, values: { ...base, '{file_name}': 'logo.png' } },
+    webview: { modes: EDITOR_MODES, values: { ...base, '{file_name}': 'Release Notes' } },
+    'notebook without an active cell': {
+        modes: EDITOR_MODES,
+        values: { ...base, '{file_name}': 'analysis.ipynb', '{notebook_cell_count}': '8' },
+    },
+    'no editor': { modes: ['debugging', 'task', 'testing', 'terminal', 'idling'], values: { '{task_name}': 'npm: build' } },
+};
+
+// Text a missing value leaves behind: separators at the ends, doubled up separators or empty "line /" parts
+const DANGLING = [
+    [/[{}]/, 'unrendered braces'],
+    [/^[\s,/:-]|[\s,/:-]$/, 'a separator at the start or end'],
+    [/\s{2,}|\s,|,,|\/\s*,|,\s*\//, 'doubled up separators'],
+    [/\b(in|on|line)\b\s*(,|$)/, 'a word without the value that follows it'],
+];
+
+let failures = 0;
+for (const [key, template] of templates) {
+    for (const [scenario, { modes, values: known }] of Object.entries(scenarios)) {
+        if (!templateModes(key).some((mode) => modes.includes(mode))) continue;
+
+        // Every placeholder is known, those the scenario doesn't fill are empty
+        const values = Object.fromEntries([...templateKeys(template)].map((placeholder) => [placeholder, known[placeholder]]));
+        const { text: rendered, warnings } = renderTemplate(template, values);
+        const problems = [...warnings, ...DANGLING.filter(([pattern]) => pattern.test(rendered)).map(([, problem]) => problem)];
+
+        if (problems.length) {
+            failures++;
+            console.error(`${key} (${scenario}): "${rendered}" has ${problems.join(', ')}`);
+        }
+    }
+}
+
+console.log(`Checked ${templates.length} default templates in ${Object.keys(scenarios).length} scenarios, ${failures} failed`);
+process.exitCode = failures ? 1 : 0;
@@ -0,0 +1,127 @@
+// A local stand-in for vscode-status-api, point `vscodeStatus.apiUrl` at it while developing.
+// Usage: node scripts/mock-api.mjs [port]
+import { createServer } from 'node:http';
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const users = new Map(); // userId -> token
+const statuses = new Map(); // userId -> last status
+
+const json = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const tokenOf = (req) => req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+
+const readBody = (req) =>
+    new Promise((resolve) => {
+        let data = '';
+        req.on('data', (chunk) => (data += chunk));
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(data || '{}'));
+            } catch {
+                resolve({});
+            }
+        });
+    });
+
+function updateStatus(payload, token) {
+    const { userId } = payload;
+    if (!users.has(userId)) return [404, { error: 'User not found' }];
+    if (users.get(userId) !== token) return [401, { error: 'Invalid token' }];
+
+    if (payload.isOffline) {
+        statuses.delete(userId);
+        console.log(`[offline] ${userId} (session ${payload.sessionId})`);
+        return [200, { success: true }];
+    }
+
+    statuses.set(userId, payload);
+    console.log(`[status] ${userId}: ${payload.details ?? '(no details)'}`);
+    return [200, { success: true }];
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+
+    if (req.method === 'POST' && url.pathname === '/update-status') {
+        const [status, body] = updateStatus(await readBody(req), tokenOf(req));
+        return json(res, status, body);
+    }
+
+    if (req.method === 'POST' && url.pathname === '/register-user') {
+        const { userId } = await readBody(req);
+        if (users.has(userId)) return json(res, 409, { error: 'User already exists' });
+
+        users.set(userId, tokenOf(req));
+        console.log(`[register] ${userId}`);
+        return json(res, 201, { success: true });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/rotate-token') {
+        const { userId, newToken } = await readBody(req);
+        if (!users.has(userId)) return json(res, 404, { error: 'User not found' });
+        if (users.get(userId) !== tokenOf(req)) return json(res, 401, { error: 'Invalid token' });
+        if (!newToken) return json(res, 400, { error: 'Missing new token' });
+
+        users.set(userId, newToken);
+        console.log(`[rotate-token] ${userId}`);
+        return json(res, 200, { success: true });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/delete-user') {
+        const { userId } = await readBody(req);
+        if (!users.has(userId)) return json(res, 404, { error: 'User not found' });
+        if (users.get(userId) !== tokenOf(req)) return json(res, 401, { error: 'Invalid token' });
+
+        users.delete(userId);
+        statuses.delete(userId);
+        console.log(`[delete-user] ${userId}`);
+        return json(res, 200, { success: true });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/check-if-user-exists') {
+        return json(res, 200, { exists: users.has(url.searchParams.get('userId')) });
+    }
+
+    if (req.method === 'GET' && url.pathname.startsWith('/status/')) {
+        const status = statuses.get(decodeURIComponent(url.pathname.slice('/status/'.length)));
+        return status ? json(res, 200, status) : json(res, 404, { error: 'User not found' });
+    }
+
+    json(res, 404, { error: 'Not found' });
+});
+
+const sockets = new WebSocketServer({ server, path: '/ws' });
+
+sockets.on('connection', (socket, req) => {
+    const token = tokenOf(req);
+    console.log('[ws] connected');
+
+    socket.on('message', (data) => {
+        let message;
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            return socket.send(JSON.stringify({ type: 'error', error: 'Malformed message' }));
+        }
+
+        if (message.type !== 'status') return;
+
+        // Unknown users are registered on the fly, the HTTP flow does the same after a 404
+        if (!users.has(message.payload.userId)) users.set(message.payload.userId, token);
+
+        const [status, body] = updateStatus(message.payload, token);
+        if (status === 401) {
+            socket.send(JSON.stringify({ type: 'token-revoked', reason: body.error }));
+            return socket.close(4001);
+        }
+
+        socket.send(JSON.stringify(status === 200 ? { type: 'ack' } : { type: 'error', status, error: body.error }));
+    });
+    socket.on('close', () => console.log('[ws] disconnected'));
+});
+
+server.listen(port, () => console.log(`Mock vscode-status-api listening on http://localhost:${port}`));
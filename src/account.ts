@@ -0,0 +1,145 @@
+import type { Response } from 'node-fetch';
+import { ConfigurationTarget } from 'vscode';
+import { checkIfUserExists, deleteUser, registerUser, rotateToken } from './apiClient';
+import { CONFIG_KEYS } from './constants';
+import { log, LogLevel, registerSecret } from './logger';
+import { isRetryableStatus } from './outbox';
+import { findSink, PRIMARY_SINK_NAME } from './sinks';
+import { getAuthToken, setAuthToken } from './tokenStore';
+import { generateGuid, generateUserId, getConfig } from './util';
+
+// The server swaps tokens during a rotation, statuses sent with either one could be rejected until it is done
+let rotating = false;
+
+// Accounts only exist on the vscode-status-api, the other sinks don't know about users
+function apiBaseUrl() {
+    const url = findSink(PRIMARY_SINK_NAME)?.url;
+    if (!url) {
+        throw new Error('No API URL is configured');
+    }
+
+    return url;
+}
+
+async function errorMessage(response: Response) {
+    try {
+        const errorData = (await response.json()) as { error?: string };
+        if (errorData.error) return errorData.error;
+    } catch {
+        // Fall through to the status line
+    }
+
+    return `API returned status ${response.status}: ${response.statusText}`;
+}
+
+export function getUserId() {
+    return getConfig()[CONFIG_KEYS.UserId];
+}
+
+// Where anyone can see the current status of the user
+export function profileUrl(userId = getUserId()) {
+    return `${apiBaseUrl()}/status/${encodeURIComponent(userId)}`;
+}
+
+export async function isRegistered() {
+    const response = await checkIfUserExists(apiBaseUrl(), getUserId(), getAuthToken());
+    if (!response.ok) {
+        throw new Error(await errorMessage(response));
+    }
+
+    const data = (await response.json()) as { exists?: boolean };
+    return data.exists === true;
+}
+
+// Resolves to false when the user was already registered
+export async function register(userId = getUserId()) {
+    const response = await registerUser(`${apiBaseUrl()}/register-user`, userId, getAuthToken());
+    if (response.status === 409) return false;
+    if (!response.ok) {
+        throw new Error(await errorMessage(response));
+    }
+
+    log(LogLevel.Info, `Registered user: ${userId}`);
+    return true;
+}
+
+export function isRotatingToken() {
+    return rotating;
+}
+
+// Rotating to the token the server already has changes nothing, so it tells which token is current
+async function isTokenAccepted(token: string) {
+    try {
+        const response = await rotateToken(`${apiBaseUrl()}/rotate-token`, getUserId(), token, token);
+        return response.ok;
+    } catch (error) {
+        log(LogLevel.Warn, `Failed to check which token the API accepts: ${error as string}`);
+        return false;
+    }
+}
+
+// The new token is only stored once the server switched over, until then the previous one keeps working.
+// Sending is paused meanwhile, see isRotatingToken
+export async function rotateAuthToken() {
+    if (rotating) {
+        throw new Error('The authentication token is already being rotated');
+    }
+
+    const previousToken = getAuthToken();
+    const newToken = generateGuid();
+    registerSecret(newToken);
+    rotating = true;
+
+    try {
+        let response: Response;
+        try {
+            response = await rotateToken(`${apiBaseUrl()}/rotate-token`, getUserId(), previousToken, newToken);
+        } catch (error) {
+            // The request may have reached the server before the connection dropped
+            if (!(await isTokenAccepted(newToken))) throw error;
+
+            log(LogLevel.Info, 'Rotation request failed, but the API already accepts the new token');
+            await setAuthToken(newToken);
+            return;
+        }
+
+        // Nothing to invalidate for unregistered users, they register with the new token later
+        if (response.status === 404) {
+            await setAuthToken(newToken);
+            log(LogLevel.Info, 'User is not registered, rotated authentication token locally');
+            return;
+        }
+
+        // A server error may also come after the swap, e.g. from a proxy timing out
+        if (!response.ok && !(isRetryableStatus(response.status) && (await isTokenAccepted(newToken)))) {
+            throw new Error(await errorMessage(response));
+        }
+
+        await setAuthToken(newToken);
+    } finally {
+        rotating = false;
+    }
+
+    log(LogLevel.Info, 'Rotated authentication token');
+}
+
+export async function deleteAccount() {
+    const response = await deleteUser(`${apiBaseUrl()}/delete-user`, getUserId(), getAuthToken());
+    if (!response.ok && response.status !== 404) {
+        throw new Error(await errorMessage(response));
+    }
+
+    log(LogLevel.Info, `Deleted user: ${getUserId()}`);
+}
+
+export async function setUserId(userId: string) {
+    await getConfig().update(CONFIG_KEYS.UserId, userId, ConfigurationTarget.Global);
+}
+
+// For when the current token was revoked, it can't be used to rotate or delete anything anymore
+export async function startNewAccount() {
+    const userId = generateUserId();
+    await setAuthToken(generateGuid());
+    await setUserId(userId);
+    await register(userId);
+}
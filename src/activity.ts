@@ -1,6 +1,5 @@
 import { basename, parse, sep } from 'node:path';
-import type { Selection, TextDocument } from 'vscode';
-import { debug, env, window, workspace } from 'vscode';
+import { debug, env, workspace } from 'vscode';
 import {
     CONFIG_KEYS,
     EMPTY,
@@ -10,182 +9,486 @@ import {
     UNKNOWN_GIT_BRANCH,
     UNKNOWN_GIT_REPO_NAME,
 } from './constants';
+import { getDebugInfo } from './debugInfo';
+import type { DebugInfo } from './debugInfo';
+import { getSharedEditor, isWorkspaceExcluded } from './exclusion';
+import { getFileSize } from './fileSizeCache';
+import { getFocusedEditor } from './focusedEditor';
+import type { EditorKind, FocusedEditor } from './focusedEditor';
+import { getGitInfo } from './gitInfo';
+import type { GitInfo } from './gitInfo';
+import { getIdleState, idleDuration } from './idle';
 import { log, LogLevel } from './logger';
-import { getConfig, getGit, toLower, toTitle, toUpper } from './util';
+import { applyPrivateMode, getRedactor, isPrivateMode } from './redaction';
+import type { RedactionTarget, Redactor } from './redaction';
+import { getSessionStats, sampleFocus } from './sessionStats';
+import type { SessionStats } from './sessionStats';
+import { getLastFinishedTask, getRunningTask, getTerminalCommandLine, isInTerminal } from './taskInfo';
+import type { TaskInfo } from './taskInfo';
+import { renderTemplate, templateKeys } from './template';
+import type { TemplateValues } from './template';
+import { formatShortDuration, getConfig, toLower, toTitle, toUpper } from './util';
 
-interface StatusPayload {
+export interface StatusPayload {
     details?: string | undefined;
     state?: string | undefined;
     fileName?: string | undefined;
     language?: string | undefined;
+    editorKind?: EditorKind | undefined;
+    customEditorType?: string | undefined;
+    notebookKernelLanguage?: string | undefined;
+    notebookCellCount?: number | undefined;
+    notebookCellIndex?: number | undefined;
     workspace?: string | undefined;
     timestamp?: number | undefined;
+    activityMode?: ActivityMode | undefined;
     isDebugging?: boolean | undefined;
+    debugSessionName?: string | undefined;
+    debugType?: string | undefined;
+    debugState?: 'running' | 'paused' | undefined;
+    debugStopReason?: string | undefined;
+    debugStartedAt?: number | undefined;
+    debugSessionCount?: number | undefined;
     isIdling?: boolean | undefined;
+    isAway?: boolean | undefined;
+    idleDuration?: number | undefined;
     gitBranch?: string | undefined;
     gitRepo?: string | undefined;
+    gitOwner?: string | undefined;
+    gitHost?: string | undefined;
+    gitRemoteUrl?: string | undefined;
+    gitLastCommit?: string | undefined;
+    gitDirtyCount?: number | undefined;
+    gitAhead?: number | undefined;
+    gitBehind?: number | undefined;
+    taskName?: string | undefined;
+    taskSource?: string | undefined;
+    taskRunning?: boolean | undefined;
+    taskExitCode?: number | undefined;
+    taskCommandLine?: string | undefined;
+    terminalCommandLine?: string | undefined;
+    sessionStats?: SessionStats | undefined;
     appName?: string | undefined;
 }
 
-async function fileDetails(_raw: string, document: TextDocument, selection: Selection) {
-    let raw = _raw.slice();
+// Fields that change on every update without anything happening, they go out with the next change or heartbeat
+const VOLATILE_FIELDS = new Set(['idleDuration', 'sessionStats']);
 
-    if (raw.includes(REPLACE_KEYS.TotalLines)) {
-        raw = raw.replace(REPLACE_KEYS.TotalLines, document.lineCount.toLocaleString());
+// Whether a payload is worth sending, compared to the one sent before
+export function hasMeaningfulChange(previous: object | undefined, next: object) {
+    if (!previous) return true;
+
+    const stable = (payload: object) => JSON.stringify(payload, (key, value: unknown) => (VOLATILE_FIELDS.has(key) ? undefined : value));
+    return stable(previous) !== stable(next);
+}
+
+function formatFileSize(bytes: number) {
+    let size = bytes;
+    let currentDivision = 0;
+
+    if (bytes > 1_000) {
+        size /= 1_000;
+        currentDivision++;
+        while (size > 1_000) {
+            currentDivision++;
+            size /= 1_000;
+        }
     }
 
-    if (raw.includes(REPLACE_KEYS.CurrentLine)) {
-        raw = raw.replace(REPLACE_KEYS.CurrentLine, (selection.active.line + 1).toLocaleString());
+    return `${bytes > 1_000 ? size.toFixed(2) : size}${FILE_SIZES[currentDivision]}`;
+}
+
+// Only computes the expensive values (file size) when the template actually uses them
+async function fileDetails(keys: Set<string>, editor: FocusedEditor) {
+    const values: TemplateValues = {};
+    const textEditor = editor.textEditor;
+
+    if (textEditor) {
+        const { document, selection } = textEditor;
+        values[REPLACE_KEYS.TotalLines] = document.lineCount.toLocaleString();
+        values[REPLACE_KEYS.CurrentLine] = (selection.active.line + 1).toLocaleString();
+        values[REPLACE_KEYS.CurrentColumn] = (selection.active.character + 1).toLocaleString();
     }
 
-    if (raw.includes(REPLACE_KEYS.CurrentColumn)) {
-        raw = raw.replace(REPLACE_KEYS.CurrentColumn, (selection.active.character + 1).toLocaleString());
+    if (editor.notebook) {
+        const { kernelLanguage, cellCount, cellIndex } = editor.notebook;
+        values[REPLACE_KEYS.NotebookKernelLanguage] = kernelLanguage;
+        values[REPLACE_KEYS.NotebookCellCount] = cellCount.toLocaleString();
+        values[REPLACE_KEYS.NotebookCellIndex] = cellIndex === undefined ? undefined : (cellIndex + 1).toLocaleString();
     }
 
-    if (raw.includes(REPLACE_KEYS.FileSize)) {
-        let currentDivision = 0;
-        let size: number;
+    if (keys.has(REPLACE_KEYS.FileSize) && editor.uri) {
+        let size: number | undefined;
         try {
-            ({ size } = await workspace.fs.stat(document.uri));
+            size = await getFileSize(editor.uri);
         } catch {
-            size = document.getText().length;
-        }
-
-        const originalSize = size;
-        if (originalSize > 1_000) {
-            size /= 1_000;
-            currentDivision++;
-            while (size > 1_000) {
-                currentDivision++;
-                size /= 1_000;
-            }
+            size = textEditor?.document.getText().length;
         }
 
-        raw = raw.replace(
-            REPLACE_KEYS.FileSize,
-            `${originalSize > 1_000 ? size.toFixed(2) : size}${FILE_SIZES[currentDivision]}`,
-        );
+        values[REPLACE_KEYS.FileSize] = size === undefined ? undefined : formatFileSize(size);
     }
 
-    const git = await getGit();
+    return values;
+}
 
-    if (raw.includes(REPLACE_KEYS.GitBranch)) {
-        if (git?.repositories.length) {
-            raw = raw.replace(
-                REPLACE_KEYS.GitBranch,
-                git.repositories.find((repo) => repo.ui.selected)?.state.HEAD?.name ?? FAKE_EMPTY,
-            );
-        } else {
-            raw = raw.replace(REPLACE_KEYS.GitBranch, UNKNOWN_GIT_BRANCH);
-        }
-    }
+// Untitled files, files outside the folders, webviews and custom editors belong to the window's workspace,
+// the same way exclude rules see them
+function workspacePaths(editor: FocusedEditor | undefined) {
+    const folder = editor?.uri && workspace.getWorkspaceFolder(editor.uri);
+    return folder ? [folder.uri.fsPath] : workspace.workspaceFolders?.map((each) => each.uri.fsPath) ?? [];
+}
 
-    if (raw.includes(REPLACE_KEYS.GitRepoName)) {
-        if (git?.repositories.length) {
-            raw = raw.replace(
-                REPLACE_KEYS.GitRepoName,
-                git.repositories
-                    ?.find((repo) => repo.ui.selected)
-                    ?.state.remotes[0]?.fetchUrl?.split('/')[1]
-                    ?.replace('.git', '') ?? FAKE_EMPTY,
-            );
-        } else {
-            raw = raw.replace(REPLACE_KEYS.GitRepoName, UNKNOWN_GIT_REPO_NAME);
-        }
-    }
+// Describes what is being shared, so redaction rules can be matched against it
+function redactionTarget(git: GitInfo | undefined, editor: FocusedEditor | undefined): RedactionTarget {
+    return {
+        filePath: editor?.fileName,
+        workspacePaths: workspacePaths(editor),
+        repoRemote: git?.remoteUrl,
+    };
+}
+
+// Git fields as they may be shared. Anything identifying a redacted repo is left out
+function gitDetails(git: GitInfo | undefined, redact: Redactor) {
+    if (!git) return undefined;
+
+    const repo = redact('gitRepo', git.name);
+    const isRepoRedacted = repo !== git.name;
+    // Owner and host are enough to rebuild the remote URL, so they are shared along with it
+    const remote = isRepoRedacted || !getConfig().shareGitRemoteUrl ? undefined : git.remote;
+
+    return {
+        repo,
+        branch: git.branch && redact('gitBranch', git.branch),
+        owner: remote?.owner,
+        host: remote?.host,
+        remoteUrl: remote?.webUrl,
+        lastCommit: isRepoRedacted ? undefined : git.lastCommit,
+        dirtyCount: git.dirtyCount,
+        ahead: git.ahead,
+        behind: git.behind,
+    };
+}
+
+function gitValues(git: GitInfo | undefined, redact: Redactor): TemplateValues {
+    const shared = gitDetails(git, redact);
+
+    return {
+        [REPLACE_KEYS.GitBranch]: shared?.branch,
+        [REPLACE_KEYS.GitRepoName]: shared?.repo,
+        [REPLACE_KEYS.GitOwner]: shared?.owner,
+        [REPLACE_KEYS.GitHost]: shared?.host,
+        [REPLACE_KEYS.GitRemoteUrl]: shared?.remoteUrl,
+        [REPLACE_KEYS.GitLastCommit]: shared?.lastCommit,
+        [REPLACE_KEYS.GitDirtyCount]: shared?.dirtyCount?.toLocaleString(),
+        [REPLACE_KEYS.GitAhead]: shared?.ahead?.toLocaleString(),
+        [REPLACE_KEYS.GitBehind]: shared?.behind?.toLocaleString(),
+    };
+}
+
+function debugValues(debugInfo: DebugInfo | undefined): TemplateValues {
+    return {
+        [REPLACE_KEYS.DebugSessionName]: debugInfo?.name,
+        [REPLACE_KEYS.DebugType]: debugInfo?.type,
+        [REPLACE_KEYS.DebugState]: debugInfo?.state,
+        [REPLACE_KEYS.DebugDuration]: debugInfo && formatShortDuration(Date.now() - debugInfo.startedAt),
+        [REPLACE_KEYS.DebugSessionCount]: debugInfo?.sessionCount.toLocaleString(),
+    };
+}
+
+function statsValues(): TemplateValues {
+    const stats = getSessionStats();
+
+    return {
+        [REPLACE_KEYS.SessionDuration]: formatShortDuration(stats.durationMs),
+        [REPLACE_KEYS.FilesTouched]: stats.filesTouched.toLocaleString(),
+        [REPLACE_KEYS.LinesChanged]: (stats.linesAdded + stats.linesRemoved).toLocaleString(),
+        [REPLACE_KEYS.LinesAdded]: stats.linesAdded.toLocaleString(),
+        [REPLACE_KEYS.LinesRemoved]: stats.linesRemoved.toLocaleString(),
+        [REPLACE_KEYS.CharactersTyped]: stats.charactersTyped.toLocaleString(),
+    };
+}
+
+// Unknown placeholders are only reported once per message, templates are rendered on every update
+const reportedWarnings = new Set<string>();
+
+// Placeholder values of the last rendered status, so other templates (e.g. webhook bodies) can reuse them
+let latestTemplateValues: TemplateValues = {};
+
+export function getTemplateValues() {
+    return latestTemplateValues;
+}
 
-    return raw;
+// Every warning of the last rendered status, including the ones already reported, for previews
+let latestTemplateWarnings: string[] = [];
+
+export function getTemplateWarnings() {
+    return latestTemplateWarnings;
+}
+
+export type ActivityMode = 'idling' | 'editing' | 'debugging' | 'task' | 'testing' | 'terminal';
+
+const DETAILS_TEMPLATES: Record<ActivityMode, CONFIG_KEYS> = {
+    idling: CONFIG_KEYS.DetailsIdling,
+    editing: CONFIG_KEYS.DetailsEditing,
+    debugging: CONFIG_KEYS.DetailsDebugging,
+    task: CONFIG_KEYS.DetailsTask,
+    testing: CONFIG_KEYS.DetailsTesting,
+    terminal: CONFIG_KEYS.DetailsTerminal,
+};
+
+// Tasks and terminals still happen in the workspace, so the editing state line describes them too
+const STATE_TEMPLATES: Record<ActivityMode, CONFIG_KEYS> = {
+    idling: CONFIG_KEYS.StateIdling,
+    editing: CONFIG_KEYS.StateEditing,
+    debugging: CONFIG_KEYS.StateDebugging,
+    task: CONFIG_KEYS.StateEditing,
+    testing: CONFIG_KEYS.StateEditing,
+    terminal: CONFIG_KEYS.StateEditing,
+};
+
+interface RenderContext {
+    mode: ActivityMode;
+    redact: Redactor;
+    git: GitInfo | undefined;
+    editor: FocusedEditor | undefined; // The focused editor, unless it is excluded
+    debugInfo: DebugInfo | undefined;
+    task: TaskInfo | undefined; // The running task, or the last one that finished
+}
+
+// Away wins over everything, a dev server running for hours shouldn't look like work.
+// Tasks win over idle, waiting for a build or test run is not a break
+function activityMode(editor: FocusedEditor | undefined, debugInfo: DebugInfo | undefined, excluded: boolean): ActivityMode {
+    const idleState = getIdleState();
+    const task = getRunningTask();
+
+    if (excluded || idleState === 'away') return 'idling';
+    if (debugInfo && idleState === 'active') return 'debugging';
+    if (task) return task.isTest ? 'testing' : 'task';
+    if (idleState !== 'active') return 'idling';
+    if (isInTerminal()) return 'terminal';
+
+    return editor ? 'editing' : 'idling';
+}
+
+function taskValues({ mode, task }: RenderContext): TemplateValues {
+    const commandLine = mode === 'terminal' ? getTerminalCommandLine() : task?.commandLine;
+
+    return {
+        [REPLACE_KEYS.TaskName]: task?.name,
+        [REPLACE_KEYS.TaskExitCode]: task?.exitCode?.toString(),
+        [REPLACE_KEYS.CommandLine]: getConfig().shareCommandLines ? commandLine : undefined,
+    };
 }
 
-async function details(idling: CONFIG_KEYS, editing: CONFIG_KEYS, debugging: CONFIG_KEYS) {
+async function details(
+    templates: Record<ActivityMode, CONFIG_KEYS>,
+    context: RenderContext,
+    languageOverrides: Partial<Record<string, string>> = {},
+) {
+    const { mode, redact, git, editor, debugInfo } = context;
     const config = getConfig();
-    let raw = (config[idling] as string).replace(REPLACE_KEYS.Empty, FAKE_EMPTY);
+    let raw = config[templates[mode]] as string;
 
-    if (window.activeTextEditor) {
-        const fileName = basename(window.activeTextEditor.document.fileName);
-        const { dir } = parse(window.activeTextEditor.document.fileName);
+    // Every known placeholder is listed, so anything else in a template can be reported as unknown
+    let values: TemplateValues = Object.fromEntries(
+        [
+            REPLACE_KEYS.CurrentColumn,
+            REPLACE_KEYS.CurrentLine,
+            REPLACE_KEYS.DirName,
+            REPLACE_KEYS.FileName,
+            REPLACE_KEYS.FileSize,
+            REPLACE_KEYS.FullDirName,
+            REPLACE_KEYS.LanguageLowerCase,
+            REPLACE_KEYS.LanguageTitleCase,
+            REPLACE_KEYS.LanguageUpperCase,
+            REPLACE_KEYS.NotebookCellCount,
+            REPLACE_KEYS.NotebookCellIndex,
+            REPLACE_KEYS.NotebookKernelLanguage,
+            REPLACE_KEYS.TotalLines,
+            REPLACE_KEYS.Workspace,
+            REPLACE_KEYS.WorkspaceAndFolder,
+            REPLACE_KEYS.WorkspaceFolder,
+        ].map((key) => [key, undefined]),
+    );
+    values = { ...values, ...gitValues(git, redact), ...debugValues(debugInfo), ...taskValues(context), ...statsValues() };
+    values[REPLACE_KEYS.AppName] = env.appName;
+    values[REPLACE_KEYS.Empty] = FAKE_EMPTY;
+
+    if (editor) {
+        const fileName = basename(editor.fileName);
+        const { dir } = parse(editor.fileName);
         const split = dir.split(sep);
         const dirName = split[split.length - 1];
 
-        const workspaceFolder = workspace.getWorkspaceFolder(window.activeTextEditor.document.uri);
+        const workspaceFolder = editor.uri && workspace.getWorkspaceFolder(editor.uri);
         const workspaceFolderName = workspaceFolder?.name ?? 'No workspace';
         const workspaceName = workspace.name?.replace(REPLACE_KEYS.VSCodeWorkspace, EMPTY) ?? workspaceFolderName;
         const workspaceAndFolder = `${workspaceName}${
             workspaceFolderName === FAKE_EMPTY ? '' : ` - ${workspaceFolderName}`
         }`;
 
-        const language = window.activeTextEditor.document.languageId || 'text';
+        // Custom editors and webviews have no language
+        const language = editor.languageId ?? (editor.kind === 'text' ? 'text' : undefined);
 
-        if (debug.activeDebugSession) {
-            raw = config[debugging] as string;
-        } else {
-            raw = config[editing] as string;
+        if (mode === 'editing' && language) {
+            raw = languageOverrides[language] ?? raw;
         }
 
         if (workspaceFolder) {
             const { name } = workspaceFolder;
-            const relativePath = workspace.asRelativePath(window.activeTextEditor.document.fileName).split(sep);
+            const relativePath = workspace.asRelativePath(editor.fileName).split(sep);
             relativePath.splice(-1, 1);
-            raw = raw.replace(REPLACE_KEYS.FullDirName, `${name}${sep}${relativePath.join(sep)}`);
+            values[REPLACE_KEYS.FullDirName] = redact('fileName', `${name}${sep}${relativePath.join(sep)}`);
         }
 
         try {
-            raw = await fileDetails(raw, window.activeTextEditor.document, window.activeTextEditor.selection);
+            values = {
+                ...values,
+                ...(await fileDetails(templateKeys(raw), editor)),
+            };
         } catch (error) {
             log(LogLevel.Error, `Failed to generate file details: ${error as string}`);
         }
 
-        raw = raw
-            .replace(REPLACE_KEYS.FileName, fileName)
-            .replace(REPLACE_KEYS.DirName, dirName as string)
-            .replace(REPLACE_KEYS.Workspace, workspaceName)
-            .replace(REPLACE_KEYS.WorkspaceFolder, workspaceFolderName)
-            .replace(REPLACE_KEYS.WorkspaceAndFolder, workspaceAndFolder)
-            .replace(REPLACE_KEYS.LanguageLowerCase, toLower(language))
-            .replace(REPLACE_KEYS.LanguageTitleCase, toTitle(language))
-            .replace(REPLACE_KEYS.LanguageUpperCase, toUpper(language));
+        values = {
+            ...values,
+            [REPLACE_KEYS.FileName]: redact('fileName', fileName),
+            [REPLACE_KEYS.DirName]: dirName && redact('fileName', dirName),
+            [REPLACE_KEYS.Workspace]: redact('workspace', workspaceName),
+            [REPLACE_KEYS.WorkspaceFolder]: redact('workspace', workspaceFolderName),
+            [REPLACE_KEYS.WorkspaceAndFolder]: redact('workspace', workspaceAndFolder),
+            [REPLACE_KEYS.LanguageLowerCase]: language && toLower(language),
+            [REPLACE_KEYS.LanguageTitleCase]: language && toTitle(language),
+            [REPLACE_KEYS.LanguageUpperCase]: language && toUpper(language),
+        };
     }
 
-    return raw;
+    latestTemplateValues = values;
+    const { text, warnings } = renderTemplate(raw, values);
+    for (const warning of warnings) {
+        latestTemplateWarnings.push(`Template "${raw}": ${warning}`);
+        if (reportedWarnings.has(warning)) continue;
+        reportedWarnings.add(warning);
+        log(LogLevel.Warn, `Template "${raw}": ${warning}`);
+    }
+
+    return text;
 }
 
 export async function activity(previous: StatusPayload = {}): Promise<StatusPayload> {
-    const git = await getGit();
+    // Excluded editors and workspaces are shared as idle, without their repo either
+    const editor = getSharedEditor();
+    const workspaceExcluded = isWorkspaceExcluded();
+    const excluded = !editor && (!!getFocusedEditor() || workspaceExcluded);
+    if (excluded) {
+        log(LogLevel.Trace, 'Active editor or workspace is excluded, sharing idle status');
+    }
+
+    const git = excluded ? undefined : await getGitInfo(editor?.uri);
     const appName = env.appName;
+    const redact = getRedactor(redactionTarget(git, editor));
+    // Debug session names often name the project, so excluded ones stay private too
+    const debugInfo = excluded ? undefined : getDebugInfo();
+    // Tasks and terminals of excluded editors and workspaces are as private as their files, so they are idle too
+    const mode = activityMode(editor, debugInfo, excluded);
+    const task = excluded ? undefined : getRunningTask() ?? getLastFinishedTask();
+    const context: RenderContext = { mode, redact, git, editor, debugInfo, task };
+    const idleState = getIdleState();
+    const config = getConfig();
+    latestTemplateWarnings = [];
+
+    // Active time goes to the focused language and workspace, idle time to nothing
+    const statsWorkspace = workspace.name ?? (editor?.uri && workspace.getWorkspaceFolder(editor.uri)?.name);
+    sampleFocus(
+        mode === 'idling'
+            ? undefined
+            : { language: editor?.languageId, workspace: statsWorkspace && redact('workspace', statsWorkspace) },
+    );
 
     let state: StatusPayload = {
-        details: await details(CONFIG_KEYS.DetailsIdling, CONFIG_KEYS.DetailsEditing, CONFIG_KEYS.DetailsDebugging),
+        details: await details(DETAILS_TEMPLATES, context),
+        state: await details(STATE_TEMPLATES, context, config.stateLanguageOverrides) || undefined, // An empty state line is left out
         timestamp: previous.timestamp ?? Date.now(),
         appName,
+        activityMode: mode,
         isDebugging: !!debug.activeDebugSession,
-        isIdling: !window.activeTextEditor, // User is idling if no active text editor
+        isIdling: mode === 'idling', // No (shared) text editor, no recent input, and nothing running
+        isAway: idleState === 'away',
+        idleDuration: idleDuration(),
     };
 
+    if (task) {
+        state = {
+            ...state,
+            taskName: task.name,
+            taskSource: task.source,
+            taskRunning: getRunningTask() === task,
+            taskExitCode: task.exitCode,
+            taskCommandLine: config.shareCommandLines ? task.commandLine : undefined,
+        };
+    }
+
+    if (config.shareSessionStats) {
+        state = { ...state, sessionStats: getSessionStats() };
+    }
+
+    if (mode === 'terminal' && config.shareCommandLines && !excluded) {
+        state = { ...state, terminalCommandLine: getTerminalCommandLine() };
+    }
+
+    if (debugInfo) {
+        state = {
+            ...state,
+            debugSessionName: debugInfo.name,
+            debugType: debugInfo.type,
+            debugState: debugInfo.state,
+            debugStopReason: debugInfo.stopReason,
+            debugStartedAt: debugInfo.startedAt,
+            debugSessionCount: debugInfo.sessionCount,
+        };
+    }
+
     // Add git information
-    if (git?.repositories.length) {
-        const selectedRepo = git.repositories.find((repo) => repo.ui.selected);
-        if (selectedRepo) {
-            state.gitBranch = selectedRepo.state.HEAD?.name ?? UNKNOWN_GIT_BRANCH;
-            state.gitRepo = selectedRepo.state.remotes[0]?.fetchUrl?.split('/')[1]?.replace('.git', '') ?? UNKNOWN_GIT_REPO_NAME;
-        }
+    const shared = gitDetails(git, redact);
+    if (shared) {
+        state = {
+            ...state,
+            // Hidden fields are left out, only a missing value (e.g. a detached HEAD) is shared as unknown
+            gitBranch: git?.branch ? shared.branch : redact('gitBranch', UNKNOWN_GIT_BRANCH),
+            gitRepo: git?.name ? shared.repo : redact('gitRepo', UNKNOWN_GIT_REPO_NAME),
+            gitOwner: shared.owner,
+            gitHost: shared.host,
+            gitRemoteUrl: shared.remoteUrl,
+            gitLastCommit: shared.lastCommit,
+            gitDirtyCount: shared.dirtyCount,
+            gitAhead: shared.ahead,
+            gitBehind: shared.behind,
+        };
     }
 
-    if (window.activeTextEditor) {
-        const fileName = basename(window.activeTextEditor.document.fileName);
-        const language = window.activeTextEditor.document.languageId || 'text';
-        const workspaceFolder = workspace.getWorkspaceFolder(window.activeTextEditor.document.uri);
+    if (editor) {
+        const fileName = basename(editor.fileName);
+        const workspaceFolder = editor.uri && workspace.getWorkspaceFolder(editor.uri);
         const workspaceName = workspace.name ?? workspaceFolder?.name ?? 'No workspace';
 
         state = {
             ...state,
-            details: await details(CONFIG_KEYS.DetailsIdling, CONFIG_KEYS.DetailsEditing, CONFIG_KEYS.DetailsDebugging),
-            fileName,
-            language,
-            workspace: workspaceName,
-            isIdling: false, // User is not idling when actively editing
+            fileName: redact('fileName', fileName),
+            language: editor.languageId ?? (editor.kind === 'text' ? 'text' : undefined),
+            editorKind: editor.kind,
+            customEditorType: editor.viewType,
+            notebookKernelLanguage: editor.notebook?.kernelLanguage,
+            notebookCellCount: editor.notebook?.cellCount,
+            notebookCellIndex: editor.notebook?.cellIndex,
+            workspace: redact('workspace', workspaceName),
         };
 
-        log(LogLevel.Trace, `VSCode language id: ${window.activeTextEditor.document.languageId}`);
+        log(LogLevel.Trace, `Focused ${editor.kind} editor, language id: ${editor.languageId}`);
+    }
+
+    // Private mode only shares the app name and idle/debug state
+    if (isPrivateMode()) {
+        return applyPrivateMode(state);
     }
 
     return state;
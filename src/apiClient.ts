@@ -1,15 +1,45 @@
+import { createHmac } from 'node:crypto';
 import fetch, { RequestInit, Response } from 'node-fetch';
+import { log, LogLevel } from './logger';
 
-export async function postStatus(fullUrl: string, data: any, token: string): Promise<Response> {
+// Every API call goes through here, so the logs show the URL, HTTP status and latency of each request
+async function timedFetch(url: string, options: RequestInit): Promise<Response> {
+    const startedAt = Date.now();
+    const method = options.method ?? 'GET';
+
+    try {
+        const response = await fetch(url, options);
+        log(response.ok ? LogLevel.Debug : LogLevel.Warn, `${method} request finished`, {
+            url,
+            status: response.status,
+            latencyMs: Date.now() - startedAt,
+        });
+        return response;
+    } catch (error) {
+        log(LogLevel.Warn, `${method} request failed: ${error instanceof Error ? error.message : String(error)}`, {
+            url,
+            latencyMs: Date.now() - startedAt,
+        });
+        throw error;
+    }
+}
+
+// Sinks without a token of their own send no Authorization header at all
+function authorization(token: string): Record<string, string> {
+    return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export async function postStatus(fullUrl: string, data: any, token: string, timeoutMs?: number): Promise<Response> {
     const options: RequestInit = {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
+            ...authorization(token),
         },
         body: JSON.stringify(data),
+        signal: timeoutMs === undefined ? undefined : AbortSignal.timeout(timeoutMs),
     };
-    return fetch(fullUrl, options) as Promise<Response>;
+    return timedFetch(fullUrl, options);
 }
 
 export async function registerUser(fullUrl: string, userId: string, token: string): Promise<Response> {
@@ -17,11 +47,11 @@ export async function registerUser(fullUrl: string, userId: string, token: strin
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
+            ...authorization(token),
         },
         body: JSON.stringify({ userId }),
     };
-    return fetch(fullUrl, options) as Promise<Response>;
+    return timedFetch(fullUrl, options);
 }
 
 export async function checkIfUserExists(baseUrl: string, userId: string, token: string): Promise<Response> {
@@ -29,8 +59,65 @@ export async function checkIfUserExists(baseUrl: string, userId: string, token:
     const options: RequestInit = {
         method: 'GET',
         headers: {
-            'Authorization': `Bearer ${token}`,
+            ...authorization(token),
+        },
+    };
+    return timedFetch(checkUrl, options);
+}
+
+// The server swaps the tokens atomically, the old one stops working as soon as this succeeds
+export async function rotateToken(fullUrl: string, userId: string, token: string, newToken: string): Promise<Response> {
+    const options: RequestInit = {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...authorization(token),
+        },
+        body: JSON.stringify({ userId, newToken }),
+    };
+    return timedFetch(fullUrl, options);
+}
+
+export async function deleteUser(fullUrl: string, userId: string, token: string): Promise<Response> {
+    const options: RequestInit = {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...authorization(token),
         },
+        body: JSON.stringify({ userId }),
+    };
+    return timedFetch(fullUrl, options);
+}
+
+export interface WebhookRequest {
+    method: string;
+    headers: Record<string, string>;
+    body: string;
+    token?: string | undefined;
+    secret?: string | undefined;
+    signatureHeader: string;
+}
+
+// The signature lets receivers verify the body came from us, the same way GitHub signs its webhooks
+export async function sendWebhook(fullUrl: string, request: WebhookRequest): Promise<Response> {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...request.headers,
+    };
+
+    if (request.token) {
+        headers['Authorization'] = `Bearer ${request.token}`;
+    }
+
+    if (request.secret) {
+        headers[request.signatureHeader] = `sha256=${createHmac('sha256', request.secret).update(request.body).digest('hex')}`;
+    }
+
+    const options: RequestInit = {
+        method: request.method,
+        headers,
+        body: request.method === 'GET' ? undefined : request.body,
     };
-    return fetch(checkUrl, options) as Promise<Response>;
+    return timedFetch(fullUrl, options);
 }
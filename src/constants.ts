@@ -5,20 +5,47 @@ export const FILE_SIZES = [' bytes', 'KB', 'MB', 'GB', 'TB'] as const;
 export const UNKNOWN_GIT_BRANCH = 'Unknown' as const;
 export const UNKNOWN_GIT_REPO_NAME = 'Unknown' as const;
 
+// The status preview document, it changes without any user input and is never shared
+export const PREVIEW_SCHEME = 'vscode-status-preview' as const;
+
 export const enum REPLACE_KEYS {
     AppName = '{app_name}',
+    CharactersTyped = '{characters_typed}',
+    CommandLine = '{command_line}',
     CurrentColumn = '{current_column}',
     CurrentLine = '{current_line}',
+    DebugDuration = '{debug_duration}',
+    DebugSessionCount = '{debug_session_count}',
+    DebugSessionName = '{debug_session_name}',
+    DebugState = '{debug_state}',
+    DebugType = '{debug_type}',
     DirName = '{dir_name}',
     Empty = '{empty}',
     FileName = '{file_name}',
     FileSize = '{file_size}',
+    FilesTouched = '{files_touched}',
     FullDirName = '{full_dir_name}',
+    GitAhead = '{git_ahead}',
+    GitBehind = '{git_behind}',
     GitBranch = '{git_branch}',
+    GitDirtyCount = '{git_dirty_count}',
+    GitHost = '{git_host}',
+    GitLastCommit = '{git_last_commit}',
+    GitOwner = '{git_owner}',
+    GitRemoteUrl = '{git_remote_url}',
     GitRepoName = '{git_repo_name}',
     LanguageLowerCase = '{lang}',
     LanguageTitleCase = '{Lang}',
     LanguageUpperCase = '{LANG}',
+    LinesAdded = '{lines_added}',
+    LinesChanged = '{lines_changed}',
+    LinesRemoved = '{lines_removed}',
+    NotebookCellCount = '{notebook_cell_count}',
+    NotebookCellIndex = '{notebook_cell_index}',
+    NotebookKernelLanguage = '{notebook_kernel_language}',
+    SessionDuration = '{session_duration}',
+    TaskExitCode = '{task_exit_code}',
+    TaskName = '{task_name}',
     TotalLines = '{total_lines}',
     VSCodeWorkspace = '(Workspace)',
     Workspace = '{workspace}',
@@ -28,13 +55,44 @@ export const enum REPLACE_KEYS {
 
 export const enum CONFIG_KEYS {
     ApiUrl = 'apiUrl',
+    AwayTimeout = 'awayTimeout',
     AuthToken = 'authToken',
     UserId = 'userId',
     DetailsDebugging = 'detailsDebugging',
     DetailsEditing = 'detailsEditing',
     DetailsIdling = 'detailsIdling',
+    DetailsTask = 'detailsTask',
+    DetailsTerminal = 'detailsTerminal',
+    DetailsTesting = 'detailsTesting',
+    DryRun = 'dryRun',
     Enabled = 'enabled',
+    ExcludeRules = 'excludeRules',
+    HeartbeatInterval = 'heartbeatInterval',
     IdleTimeout = 'idleTimeout',
+    JournalEnabled = 'journalEnabled',
+    LocalServerEnabled = 'localServerEnabled',
+    LocalServerPort = 'localServerPort',
+    LocalServerToken = 'localServerToken',
+    LogLevel = 'logLevel',
+    LogToFile = 'logToFile',
+    MultiWindowMode = 'multiWindowMode',
+    PrivateMode = 'privateMode',
+    RedactionRules = 'redactionRules',
+    Schedule = 'schedule',
+    ShareCommandLines = 'shareCommandLines',
+    ShareGitAheadBehind = 'shareGitAheadBehind',
+    ShareGitDirtyCount = 'shareGitDirtyCount',
+    ShareGitLastCommit = 'shareGitLastCommit',
+    ShareGitRemoteUrl = 'shareGitRemoteUrl',
+    ShareSessionStats = 'shareSessionStats',
+    StateDebugging = 'stateDebugging',
+    StateEditing = 'stateEditing',
+    StateIdling = 'stateIdling',
+    StateLanguageOverrides = 'stateLanguageOverrides',
+    StatsReset = 'statsReset',
+    Sinks = 'sinks',
     SuppressNotifications = 'suppressNotifications',
+    Transport = 'transport',
+    UpdateInterval = 'updateInterval',
     WorkspaceExcludePatterns = 'workspaceExcludePatterns',
 }
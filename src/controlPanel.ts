@@ -0,0 +1,158 @@
+import dayjs from 'dayjs';
+import type { QuickPickItem } from 'vscode';
+import { commands, MarkdownString, QuickPickItemKind, window } from 'vscode';
+import type { StatusPayload } from './activity';
+import type { Sink, SinkHealth } from './sinks';
+
+export interface ControlPanelState {
+    title: string;
+    health: SinkHealth | undefined; // Summary of all sinks
+    lastStatus: Partial<StatusPayload> | undefined; // What the API last received from us
+    sinks: { sink: Sink; health: SinkHealth | undefined }[];
+    paused: boolean;
+    pausedUntil: number | null | undefined; // null while paused until resumed
+    outsideSchedule: boolean;
+    disconnected: boolean;
+    privateMode: boolean;
+}
+
+interface ActionItem extends QuickPickItem {
+    command?: string;
+}
+
+// Commands the hover links to, anything else is refused by VS Code
+const HOVER_COMMANDS = [
+    'vscodeStatus.pause',
+    'vscodeStatus.resume',
+    'vscodeStatus.reconnect',
+    'vscodeStatus.togglePrivateMode',
+    'vscodeStatus.showLogs',
+    'vscodeStatus.openSettings',
+];
+
+function formatTime(timestamp: number | undefined) {
+    return timestamp ? dayjs(timestamp).format('DD/MM/YYYY HH:mm:ss') : 'never';
+}
+
+// The lines followers see, in the order the API shows them
+function sharedLines(status: Partial<StatusPayload> | undefined) {
+    if (!status) return [];
+
+    const lines = [status.details, status.state];
+    if (status.workspace) lines.push(`Workspace: ${status.workspace}`);
+    if (status.gitRepo) lines.push(`Repository: ${status.gitRepo}${status.gitBranch ? ` (${status.gitBranch})` : ''}`);
+
+    return lines.filter((line): line is string => !!line);
+}
+
+function lastError(state: ControlPanelState) {
+    return state.sinks.flatMap(({ sink, health }) => {
+        if (!health?.lastError) return [];
+        return [state.sinks.length > 1 ? `${sink.name}: ${health.lastError}` : health.lastError];
+    });
+}
+
+function lastSuccessAt(state: ControlPanelState) {
+    const times = state.sinks.map(({ health }) => health?.lastSuccessAt ?? 0);
+    return Math.max(0, ...times) || undefined;
+}
+
+function modeLabel(state: ControlPanelState) {
+    if (state.disconnected) return 'Disconnected';
+    if (state.outsideSchedule) return 'Outside sharing hours';
+    if (state.paused) return state.pausedUntil ? `Paused until ${dayjs(state.pausedUntil).format('DD/MM/YYYY HH:mm')}` : 'Paused';
+    return state.privateMode ? 'Sharing (private mode)' : 'Sharing';
+}
+
+export function renderTooltip(state: ControlPanelState) {
+    const tooltip = new MarkdownString(undefined, true);
+    tooltip.isTrusted = { enabledCommands: HOVER_COMMANDS };
+
+    tooltip.appendMarkdown(`**${state.title}** · ${modeLabel(state)}\n\n`);
+    if (state.health) {
+        tooltip.appendText(state.health.tooltip);
+        tooltip.appendMarkdown('\n\n');
+    }
+
+    const shared = sharedLines(state.lastStatus);
+    if (shared.length) {
+        tooltip.appendMarkdown('Currently sharing:\n\n');
+        for (const line of shared) {
+            tooltip.appendText(line);
+            tooltip.appendMarkdown('\n\n');
+        }
+    } else {
+        tooltip.appendMarkdown('Nothing shared yet\n\n');
+    }
+
+    tooltip.appendMarkdown(`Last sent: ${formatTime(lastSuccessAt(state))}\n\n`);
+    for (const error of lastError(state)) {
+        tooltip.appendMarkdown('$(warning) ');
+        tooltip.appendText(error);
+        tooltip.appendMarkdown('\n\n');
+    }
+
+    const toggle = state.paused ? '[Resume](command:vscodeStatus.resume)' : '[Pause](command:vscodeStatus.pause)';
+    tooltip.appendMarkdown(
+        `---\n\n${toggle} · [Reconnect](command:vscodeStatus.reconnect) · ` +
+            `[Private Mode](command:vscodeStatus.togglePrivateMode) · [Logs](command:vscodeStatus.showLogs) · ` +
+            `[Settings](command:vscodeStatus.openSettings)`,
+    );
+
+    return tooltip;
+}
+
+function actionItems(state: ControlPanelState): ActionItem[] {
+    const actions: ActionItem[] = [];
+    const reconnect: ActionItem = { label: '$(debug-restart) Reconnect', command: 'vscodeStatus.reconnect' };
+
+    if (state.disconnected) {
+        actions.push(reconnect);
+    } else {
+        // Failed updates are the most likely reason to open the panel, so retrying comes first
+        if (state.health?.retryable) {
+            actions.push({ ...reconnect, description: 'Retry failed updates' });
+        }
+
+        actions.push(
+            state.paused
+                ? { label: '$(debug-start) Resume', description: 'Share activity again', command: 'vscodeStatus.resume' }
+                : { label: '$(debug-pause) Pause…', description: 'Stop sharing activity for a while', command: 'vscodeStatus.pause' },
+            { label: '$(debug-disconnect) Disconnect', description: 'End the session until reconnecting', command: 'vscodeStatus.disconnect' },
+        );
+
+        if (!state.health?.retryable) {
+            actions.push(reconnect);
+        }
+    }
+
+    actions.push(
+        {
+            label: state.privateMode ? '$(eye) Disable Private Mode' : '$(eye-closed) Enable Private Mode',
+            command: 'vscodeStatus.togglePrivateMode',
+        },
+        { label: '$(output) Open Logs', command: 'vscodeStatus.showLogs' },
+        { label: '$(gear) Open Settings', command: 'vscodeStatus.openSettings' },
+    );
+
+    return actions;
+}
+
+export async function showControlPanel(state: ControlPanelState) {
+    const shared = sharedLines(state.lastStatus);
+    const errors = lastError(state);
+
+    const items: ActionItem[] = [
+        { label: `Currently sharing · ${modeLabel(state)}`, kind: QuickPickItemKind.Separator },
+        ...(shared.length ? shared.map((line) => ({ label: line })) : [{ label: 'Nothing shared yet' }]),
+        { label: `$(history) Last sent: ${formatTime(lastSuccessAt(state))}` },
+        ...errors.map((error) => ({ label: '$(warning) Last error', detail: error })),
+        { label: 'Actions', kind: QuickPickItemKind.Separator },
+        ...actionItems(state),
+    ];
+
+    const picked = await window.showQuickPick(items, { title: state.title, placeHolder: 'Choose an action' });
+    if (picked?.command) {
+        await commands.executeCommand(picked.command);
+    }
+}
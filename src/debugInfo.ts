@@ -0,0 +1,106 @@
+import type { DebugSession, Disposable } from 'vscode';
+import { debug } from 'vscode';
+import { log, LogLevel } from './logger';
+
+export type DebugState = 'running' | 'paused';
+
+export interface DebugInfo {
+    name: string;
+    type: string;
+    startedAt: number;
+    state: DebugState;
+    stopReason?: string | undefined; // e.g. breakpoint, step or exception
+    sessionCount: number;
+}
+
+interface TrackedSession {
+    session: DebugSession;
+    startedAt: number;
+    stopReason?: string | undefined; // Set while stopped
+}
+
+const sessions = new Map<string, TrackedSession>();
+let onDebugChange: (() => void) | undefined;
+
+// Adapters like js-debug start child sessions, the user only knows the session they launched
+function rootSession(session: DebugSession) {
+    let root = session;
+    while (root.parentSession) root = root.parentSession;
+    return root;
+}
+
+// `pwa-node` and friends are the same debugger as `node` as far as anyone watching is concerned
+function normalizeType(type: string) {
+    return type.replace(/^pwa-/, '');
+}
+
+function setStopReason(session: DebugSession, stopReason: string | undefined) {
+    const tracked = sessions.get(session.id);
+    if (!tracked || tracked.stopReason === stopReason) return;
+
+    tracked.stopReason = stopReason;
+    log(LogLevel.Debug, `Debug session "${session.name}" ${stopReason ? `paused (${stopReason})` : 'continued'}`);
+    onDebugChange?.();
+}
+
+// The active session wins, with several unrelated sessions the most recently started one does
+export function getDebugInfo(): DebugInfo | undefined {
+    const tracked = [...sessions.values()];
+    if (!tracked.length) return undefined;
+
+    const active = debug.activeDebugSession;
+    const root = active ? rootSession(active) : rootSession((tracked.at(-1) as TrackedSession).session);
+    const family = tracked.filter(({ session }) => rootSession(session).id === root.id);
+    const stopped = family.find(({ stopReason }) => stopReason);
+
+    return {
+        name: root.name,
+        // Child sessions carry the actual debugger type, e.g. `node` under a `pwa-chrome` compound
+        type: normalizeType((active ?? root).type),
+        startedAt: sessions.get(root.id)?.startedAt ?? Math.min(...family.map(({ startedAt }) => startedAt)),
+        state: stopped ? 'paused' : 'running',
+        stopReason: stopped?.stopReason,
+        sessionCount: new Set(tracked.map(({ session }) => rootSession(session).id)).size,
+    };
+}
+
+export function initDebugTracking(onChange: () => void): Disposable[] {
+    onDebugChange = onChange;
+
+    // Sessions started before activation are picked up when they become active
+    if (debug.activeDebugSession) {
+        sessions.set(debug.activeDebugSession.id, { session: debug.activeDebugSession, startedAt: Date.now() });
+    }
+
+    return [
+        debug.onDidStartDebugSession((session) => {
+            sessions.set(session.id, { session, startedAt: Date.now() });
+            onChange();
+        }),
+        debug.onDidTerminateDebugSession((session) => {
+            sessions.delete(session.id);
+            onChange();
+        }),
+        debug.onDidChangeActiveDebugSession((session) => {
+            if (session && !sessions.has(session.id)) {
+                sessions.set(session.id, { session, startedAt: Date.now() });
+            }
+            onChange();
+        }),
+        // Stopped and continued events only reach us through the messages of the debug adapter
+        debug.registerDebugAdapterTrackerFactory('*', {
+            createDebugAdapterTracker: (session) => ({
+                onDidSendMessage: (message: { type?: string; event?: string; body?: { reason?: string } }) => {
+                    if (message.type !== 'event') return;
+
+                    if (message.event === 'stopped') {
+                        setStopReason(session, message.body?.reason ?? 'pause');
+                    } else if (message.event === 'continued') {
+                        setStopReason(session, undefined);
+                    }
+                },
+                onExit: () => setStopReason(session, undefined),
+            }),
+        }),
+    ];
+}
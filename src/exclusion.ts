@@ -0,0 +1,110 @@
+import { window, workspace } from 'vscode';
+import { getFocusedEditor } from './focusedEditor';
+import type { FocusedEditor } from './focusedEditor';
+import { log, LogLevel } from './logger';
+import { getConfig, globToRegExp, toPosixPath } from './util';
+
+// A rule applies when all of its conditions match. Patterns are globs, or regexes when written as `/pattern/flags`
+export interface ExcludeRule {
+    workspace?: string; // Matched against the workspace folder path
+    file?: string; // Matched against the path relative to the workspace folder, and the full path
+    languages?: string[];
+    schemes?: string[]; // e.g. `untitled`, `git` (diff views) or `output`
+}
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+// Compiled patterns, undefined for invalid ones so they are only reported once
+const compiled = new Map<string, RegExp | undefined>();
+
+function reportInvalid(pattern: string, error: unknown) {
+    const message = `Invalid exclude pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`;
+    log(LogLevel.Warn, message);
+
+    if (!getConfig().suppressNotifications) {
+        void window.showWarningMessage(`${message}. The pattern is ignored.`);
+    }
+}
+
+function compile(pattern: string, regex: boolean) {
+    const key = `${regex ? 'regex' : 'auto'}:${pattern}`;
+    if (compiled.has(key)) return compiled.get(key);
+
+    let result: RegExp | undefined;
+    try {
+        const match = REGEX_PATTERN.exec(pattern);
+        if (regex) {
+            result = new RegExp(pattern);
+        } else if (match) {
+            result = new RegExp(match[1] as string, match[2]);
+        } else {
+            result = globToRegExp(pattern);
+        }
+    } catch (error) {
+        reportInvalid(pattern, error);
+    }
+
+    compiled.set(key, result);
+    return result;
+}
+
+function matches(pattern: string | undefined, path: string | undefined, regex = false) {
+    if (pattern === undefined) return true;
+    if (!path) return false;
+
+    const compiledPattern = compile(pattern, regex);
+    if (!compiledPattern) return false;
+
+    // Globs are written with forward slashes, regexes see the path as is
+    return compiledPattern.test(path) || compiledPattern.test(toPosixPath(path));
+}
+
+// `workspaceExcludePatterns` predates the rules and only holds regexes for workspace folders
+function getRules(): (ExcludeRule & { legacy?: boolean })[] {
+    const { excludeRules, workspaceExcludePatterns } = getConfig();
+
+    return [...workspaceExcludePatterns.map((pattern) => ({ workspace: pattern, legacy: true })), ...excludeRules];
+}
+
+function matchesEditor(rule: ExcludeRule & { legacy?: boolean }, editor: FocusedEditor) {
+    const folder = editor.uri && workspace.getWorkspaceFolder(editor.uri);
+
+    // Documents outside any folder (e.g. untitled files) belong to the window's workspace
+    const folderPaths = folder ? [folder.uri.fsPath] : workspace.workspaceFolders?.map((each) => each.uri.fsPath) ?? [];
+
+    // `*.env` or `secrets/**` are written relative to the workspace, full paths still work for files outside of it
+    const relativePath = editor.uri && workspace.asRelativePath(editor.uri, false);
+
+    return (
+        (rule.workspace === undefined || folderPaths.some((path) => matches(rule.workspace, path, rule.legacy))) &&
+        (rule.file === undefined || matches(rule.file, relativePath) || matches(rule.file, editor.fileName)) &&
+        (!rule.languages?.length || (!!editor.languageId && rule.languages.includes(editor.languageId))) &&
+        (!rule.schemes?.length || (!!editor.uri && rule.schemes.includes(editor.uri.scheme)))
+    );
+}
+
+export function isEditorExcluded(editor: FocusedEditor) {
+    return getRules().some((rule) => matchesEditor(rule, editor));
+}
+
+// Without an editor, only rules that are just about the workspace can apply
+export function isWorkspaceExcluded() {
+    const folders = workspace.workspaceFolders ?? [];
+
+    return getRules().some(
+        (rule) =>
+            rule.workspace !== undefined &&
+            rule.file === undefined &&
+            !rule.languages?.length &&
+            !rule.schemes?.length &&
+            folders.some((folder) => matches(rule.workspace, folder.uri.fsPath, rule.legacy)),
+    );
+}
+
+// The focused editor, unless it is excluded from sharing
+export function getSharedEditor() {
+    const editor = getFocusedEditor();
+    if (!editor || isEditorExcluded(editor)) return undefined;
+
+    return editor;
+}
@@ -1,78 +1,465 @@
+import dayjs from 'dayjs';
 import throttle from 'lodash-es/throttle';
+import type { DebouncedFunc } from 'lodash-es';
 import type { ExtensionContext, StatusBarItem } from 'vscode';
-import { commands, StatusBarAlignment, window, workspace, debug, ConfigurationTarget } from 'vscode';
-import { activity } from './activity';
+import { commands, StatusBarAlignment, window, workspace, env, ConfigurationTarget, Uri } from 'vscode';
+import { activity, getTemplateValues, getTemplateWarnings, hasMeaningfulChange } from './activity';
+import type { StatusPayload } from './activity';
+import { renderTooltip, showControlPanel } from './controlPanel';
+import { disposeSchedule, initSchedule, isSnoozed, isWithinSchedule, resume, snooze, snoozedUntil } from './schedule';
+import type { ScheduleEvent } from './schedule';
+import type { ControlPanelState } from './controlPanel';
+import { initDebugTracking } from './debugInfo';
+import { initFileSizeCache } from './fileSizeCache';
+import { initGitCache } from './gitInfo';
+import { initLocalServer, isLocalServerRunning, publishLocalStatus, syncLocalServer } from './localServer';
+import { initPreview, isDryRun, recordDryRun, showStatusPreview } from './preview';
+import type { StatusPreview } from './preview';
+import { initSessionStats, showSessionStats, startStatsSession } from './sessionStats';
+import { initTaskTracking } from './taskInfo';
+import { initIdleTracking, markActive } from './idle';
+import { flushJournal, initJournal, isJournalEnabled, recordStatus, showJournalReport } from './journal';
 import { CONFIG_KEYS } from './constants';
-import { log, LogLevel } from './logger';
-import { getConfig, getGit, generateGuid, generateUserId } from './util';
-import { postStatus, registerUser } from './apiClient';
+import { initLogger, log, LogLevel, revealLogFile, showLogs } from './logger';
+import { formatShortDuration, getConfig, getGit, generateGuid, generateUserId } from './util';
+import { postStatus, registerUser, sendWebhook } from './apiClient';
+import { getAuthToken, initTokenStore, setAuthToken, setSinkSecret } from './tokenStore';
+import type { SinkSecretKind } from './tokenStore';
+import { deleteAccount, getUserId, isRegistered, isRotatingToken, profileUrl, register, rotateAuthToken, setUserId, startNewAccount } from './account';
+import type { WebhookRequest } from './apiClient';
+import {
+    discardStatus,
+    disposeOutbox,
+    enqueueStatus,
+    initOutbox,
+    isBackingOff,
+    isRetryableError,
+    isRetryableStatus,
+    parseRetryAfter,
+    supersedeStatus,
+} from './outbox';
+import type { OutboxEntry } from './outbox';
+import { createSocketTransport, toSocketUrl } from './socketTransport';
+import { applyPrivateMode, isPrivateMode } from './redaction';
+import { clearSinkHealth, findSink, getEnabledSinks, getSinkHealth, getSinks, PRIMARY_SINK_NAME, setSinkHealth, summarizeHealth } from './sinks';
+import type { Sink, SinkHealth, WebhookOptions } from './sinks';
+import { renderWebhookBody, webhookValues } from './webhook';
+import { disposeWindowCoordinator, initWindowCoordinator, isJournalWindow, isLeader, setWindowFocused, windowCount } from './windowCoordinator';
+import type { ServerEvent, SocketState, SocketTransport } from './socketTransport';
 
 const statusBarIcon: StatusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
 statusBarIcon.text = '$(pulse) Connecting to API...';
+statusBarIcon.command = 'vscodeStatus.showControlPanel';
 
 const config = getConfig();
 
 let isDisconnectedFromAPI = false;
 
+// Set while outside the sharing schedule, the session is ended and a new one starts once back inside
+let isOutsideSchedule = false;
+
+// What the sinks were last sent, shown in the control panel
+let lastSharedStatus: Partial<StatusPayload> | undefined;
+
+// Identifies one connection to the API, from connect() until the offline status is sent
+let sessionId: string | undefined;
+
+// Whether this session is the one the API shows, i.e. it sent a status while this window was the leader
+let sessionReported = false;
+
 let state = {};
-let idle: NodeJS.Timeout | undefined;
 let listeners: { dispose(): any }[] = [];
+let socketTransport: SocketTransport | undefined;
+
+const JOURNAL_RECORD_INTERVAL_MS = 10_000; // 10 seconds
+const OFFLINE_STATUS_TIMEOUT_MS = 2_000; // 2 seconds, VS Code doesn't wait long on shutdown
 
-const STATUS_POST_INTERVAL_MS = 10_000; // 10 seconds
-const throttledSendActivity = throttle(sendActivity, STATUS_POST_INTERVAL_MS, {
-    leading: false,
+// The slowest rate the server asked for, the configured interval can't go below it
+let serverIntervalMs = 0;
+let throttledSendActivity = createSender();
+
+// What was last sent, updates without a meaningful change are skipped
+let lastSentStatus: object | undefined;
+
+// The journal and the local server keep their own activity state, they work even when sharing is disabled
+let journalState = {};
+const throttledRecordActivity = throttle(recordActivity, JOURNAL_RECORD_INTERVAL_MS, {
+    leading: true,
     trailing: true
 });
 
 export function cleanUp() {
     for (const listener of listeners) listener.dispose();
     listeners = [];
+    socketTransport = undefined;
 }
 
-// Make the status bar item clickable to retry connecting when in an error state
-function makeStatusBarRetryable() {
-    statusBarIcon.command = 'vscodeStatus.reconnect';
-    statusBarIcon.tooltip = 'Click to retry';
+function sendIntervalMs() {
+    return Math.max(getConfig()[CONFIG_KEYS.UpdateInterval] * 1_000, serverIntervalMs);
+}
+
+function createSender() {
+    return throttle(() => sendActivity(), sendIntervalMs(), {
+        leading: false,
+        trailing: true
+    });
 }
 
-// Clear any clickable command when connected/connecting
-function clearStatusBarCommand() {
-    statusBarIcon.command = undefined;
+// The server can ask us to slow down, which replaces the throttled sender with one using the new interval
+function setSendInterval(intervalMs: number) {
+    serverIntervalMs = intervalMs;
+    log(LogLevel.Info, `Changing status update interval to ${sendIntervalMs()}ms`);
+    throttledSendActivity.flush();
+    throttledSendActivity = createSender();
 }
 
-async function sendActivity() {
+// The server's rate limit belongs to the connection that sent it, HTTP and new connections start from the settings
+function resetSendInterval() {
+    if (serverIntervalMs) setSendInterval(0);
+}
+
+// For when the receiving end may not have the last status, e.g. a new connection or another window took over
+function resendActivity() {
+    lastSentStatus = undefined;
+    void throttledSendActivity();
+}
+
+async function sendActivity(force = false) {
     // If disconnected from API in memory, don't send status updates
     if (isDisconnectedFromAPI) {
         log(LogLevel.Debug, 'Skipping status update - disconnected from API');
         return;
     }
 
+    if (isOutsideSchedule) {
+        log(LogLevel.Debug, 'Skipping status update - outside sharing schedule');
+        return;
+    }
+
+    // Only one window reports status, the others would overwrite it with whatever they last saw
+    if (!isLeader()) {
+        log(LogLevel.Debug, 'Skipping status update - another window is reporting status');
+        return;
+    }
+
     state = {
         ...(await activity(state)),
     };
-    
+
+    const statusData = withWindowSummary(sharedState());
+    if (!force && !hasMeaningfulChange(lastSentStatus, statusData)) {
+        log(LogLevel.Trace, 'Skipping status update - nothing changed');
+        return;
+    }
+
     // Send POST request to API
-    await sendStatusToAPI(state);
+    lastSentStatus = statusData;
+    await sendStatusToAPI(statusData);
+}
+
+// Paused (snoozed) sessions stay alive, but only share that we are around, not what we are doing
+function sharedState(status: StatusPayload = state) {
+    return isSnoozed() ? { ...applyPrivateMode(status), isPaused: true } : status;
+}
+
+// Renders what would be sent right now, without sending it or touching the shared state
+async function previewStatus(): Promise<StatusPreview> {
+    const current = await activity(state);
+
+    return {
+        details: current.details,
+        state: current.state,
+        payload: withWindowSummary(sharedState(current)),
+        warnings: [...getTemplateWarnings()],
+        renderedAt: Date.now(),
+    };
+}
+
+const DRY_RUN_HEALTH: SinkHealth = {
+    status: 'dryRun',
+    text: '$(eye) Dry Run',
+    tooltip: 'Dry run: status updates are written to the logs and the preview instead of being sent',
+};
+
+function withWindowSummary(statusData: object) {
+    if (getConfig()[CONFIG_KEYS.MultiWindowMode] !== 'summary') return statusData;
+
+    return { ...statusData, windowCount: windowCount() };
+}
+
+async function recordActivity() {
+    // Only one window records, otherwise time would be counted once per window
+    const journaling = isJournalEnabled() && isJournalWindow();
+    if (!journaling && !isLocalServerRunning()) return;
+
+    journalState = {
+        ...(await activity(journalState)),
+    };
+
+    publishLocalStatus(sharedState(journalState));
+    if (journaling) await recordStatus(journalState);
+}
+
+function sinkLabel(sink: Sink) {
+    return sink.primary ? 'API' : `API "${sink.name}"`;
+}
+
+function controlPanelState(): ControlPanelState {
+    const sinks = getEnabledSinks();
+
+    return {
+        title: 'VSCode Status',
+        health: summarizeHealth(sinks),
+        lastStatus: lastSharedStatus,
+        sinks: sinks.map((sink) => ({ sink, health: getSinkHealth(sink.name) })),
+        paused: isSnoozed(),
+        pausedUntil: snoozedUntil(),
+        outsideSchedule: isOutsideSchedule,
+        disconnected: isDisconnectedFromAPI,
+        privateMode: isPrivateMode(),
+    };
+}
+
+function renderStatusBar() {
+    const panelState = controlPanelState();
+
+    if (isDisconnectedFromAPI) {
+        statusBarIcon.text = '$(circle-slash) Disconnected from API';
+    } else if (isOutsideSchedule) {
+        statusBarIcon.text = '$(clock) Outside Sharing Hours';
+    } else if (panelState.paused) {
+        // Rounded up, the countdown shows 1m until the pause actually ends
+        const until = panelState.pausedUntil;
+        statusBarIcon.text = until ? `$(debug-pause) Paused · ${formatShortDuration(until - Date.now() + 59_999)}` : '$(debug-pause) Sharing Paused';
+    } else {
+        statusBarIcon.text = panelState.health?.text ?? '$(globe) Connected to API';
+    }
+
+    statusBarIcon.tooltip = renderTooltip(panelState);
+}
+
+function updateSinkHealth(sink: Sink, health: SinkHealth) {
+    setSinkHealth(sink.name, health);
+    renderStatusBar();
+}
+
+async function handleAuthFailure(sink: Sink, errorMessage: string) {
+    log(LogLevel.Error, `Authentication failed for ${sink.name}: ${errorMessage}`);
+
+    // Tokens of other sinks are managed by their owners, only the primary token can be regenerated here
+    if (!sink.primary) {
+        updateSinkHealth(sink, {
+            status: 'error',
+            text: '$(warning) Auth Failed',
+            tooltip: `Authentication failed. Check the auth token of this sink in settings.`,
+            lastError: errorMessage,
+        });
+        if (!getConfig()[CONFIG_KEYS.SuppressNotifications]) {
+            void window.showErrorMessage(`Authentication failed for ${sinkLabel(sink)}. Check its auth token in settings.`);
+        }
+        return;
+    }
+
+    updateSinkHealth(sink, {
+        status: 'error',
+        text: '$(warning) Auth Failed',
+        tooltip: `Authentication failed. Generate a new token using the command palette.`,
+        lastError: errorMessage,
+    });
+    if (!getConfig()[CONFIG_KEYS.SuppressNotifications]) {
+        const action = await window.showErrorMessage(
+            `API authentication failed. Your token may be invalid.`,
+            'Start New Account'
+        );
+        if (action === 'Start New Account') {
+            try {
+                await startNewAccount();
+                void window.showInformationMessage(`Started a new account as user ${getUserId()}`);
+            } catch (error) {
+                await window.showErrorMessage(`Failed to start a new account: ${error as string}`);
+                log(LogLevel.Error, `Failed to start a new account: ${error as string}`);
+            }
+            await commands.executeCommand('vscodeStatus.reconnect');
+        }
+    }
+}
+
+// Each sink gets its own throttle, so a slow internal dashboard doesn't hold back the others
+const sinkSenders = new Map<string, DebouncedFunc<(sink: Sink, statusData: any) => Promise<void>>>();
+
+function sinkSender(sink: Sink) {
+    const key = `${sink.name}:${sink.intervalMs}`;
+    let sender = sinkSenders.get(key);
+
+    if (!sender) {
+        // The sink is passed on every call, its URL and token can change while the throttle lives on
+        sender = throttle((current: Sink, statusData: any) => sendStatusToSink(current, statusData), sink.intervalMs, {
+            leading: true,
+            trailing: true
+        });
+        sinkSenders.set(key, sender);
+    }
+
+    return sender;
 }
 
 async function sendStatusToAPI(statusData: any) {
+    sessionReported = !!sessionId;
+    lastSharedStatus = statusData;
+    renderStatusBar();
+
+    await Promise.all(
+        getEnabledSinks().map(async (sink) => {
+            if (sink.intervalMs > 0) {
+                await sinkSender(sink)(sink, statusData);
+            } else {
+                await sendStatusToSink(sink, statusData);
+            }
+        }),
+    );
+}
+
+function webhookRequest(sink: Sink, body: unknown): WebhookRequest {
+    const webhook = sink.webhook as WebhookOptions;
+
+    return {
+        method: webhook.method,
+        headers: webhook.headers,
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+        token: sink.token,
+        secret: webhook.hmacSecret,
+        signatureHeader: webhook.signatureHeader,
+    };
+}
+
+async function sendStatusToWebhook(sink: Sink, statusData: any) {
+    const { bodyTemplate } = sink.webhook as WebhookOptions;
+    const userId = getConfig()[CONFIG_KEYS.UserId];
+    // The template values are the raw ones from activity(), so private mode and pauses have to mask them here too
+    const isPrivate = sink.redaction === 'private' || isPrivateMode() || isSnoozed();
+    const statusPayload = {
+        timestamp: Date.now(),
+        userId,
+        sessionId,
+        ...(isPrivate ? applyPrivateMode(statusData) : statusData),
+    };
+    const body = bodyTemplate === undefined
+        ? statusPayload
+        : renderWebhookBody(bodyTemplate, webhookValues(getTemplateValues(), statusPayload, isPrivate));
+    const outboxKey = `${sink.name}:${sessionId ?? userId}`;
+
+    if (isDryRun()) {
+        recordDryRun(sink.name, sink.url, body);
+        updateSinkHealth(sink, DRY_RUN_HEALTH);
+        return;
+    }
+
+    if (isBackingOff(outboxKey)) {
+        log(LogLevel.Debug, `Outbox is backing off, queueing webhook body for ${sink.name}`);
+        supersedeStatus(outboxKey, body);
+        return;
+    }
+
+    try {
+        log(LogLevel.Trace, `Sending webhook to ${sink.name}: ${JSON.stringify(body)}`);
+        const response = await sendWebhook(sink.url, webhookRequest(sink, body));
+
+        if (response.ok) {
+            discardStatus(outboxKey);
+            updateSinkHealth(sink, { status: 'ok', text: '$(globe) Webhook Delivered', tooltip: 'Webhook delivered' });
+            log(LogLevel.Debug, `Successfully sent webhook to ${sink.name}`);
+            return;
+        }
+
+        const errorMessage = `Webhook returned status ${response.status}: ${response.statusText}`;
+        const retryable = isRetryableStatus(response.status);
+        if (retryable) {
+            enqueueStatus(outboxKey, sink.url, body, parseRetryAfter(response.headers.get('Retry-After')), sink.name);
+        } else if (!getConfig()[CONFIG_KEYS.SuppressNotifications]) {
+            void window.showErrorMessage(`An error occurred with the webhook "${sink.name}": ${errorMessage}`);
+        }
+
+        log(LogLevel.Error, `Webhook ${sink.name} failed: ${errorMessage}`);
+        updateSinkHealth(sink, {
+            status: 'error',
+            text: '$(warning) Webhook Error',
+            tooltip: `Webhook error: ${errorMessage}`,
+            retryable,
+            lastError: errorMessage,
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (isRetryableError(error)) {
+            enqueueStatus(outboxKey, sink.url, body, undefined, sink.name);
+        }
+
+        log(LogLevel.Error, `Failed to send webhook to ${sink.name}: ${errorMessage}`);
+        updateSinkHealth(sink, {
+            status: 'error',
+            text: '$(warning) Webhook Failed',
+            tooltip: `Webhook failed: ${errorMessage}`,
+            retryable: true,
+            lastError: errorMessage,
+        });
+    }
+}
+
+async function sendStatusToSink(sink: Sink, statusData: any) {
+    if (sink.type === 'webhook') {
+        return sendStatusToWebhook(sink, statusData);
+    }
+
     const now = Date.now();
     const config = getConfig();
-    const apiBaseUrl = config[CONFIG_KEYS.ApiUrl];
-    const authToken = config[CONFIG_KEYS.AuthToken];
+    const apiBaseUrl = sink.url;
+    const authToken = sink.token;
     const userId = config[CONFIG_KEYS.UserId];
+    const label = sinkLabel(sink);
+
+    // Always include userId in the outgoing status data
+    const statusPayload = {
+        timestamp: now,
+        userId: userId,
+        sessionId,
+        ...(sink.redaction === 'private' ? applyPrivateMode(statusData) : statusData),
+    };
+    const outboxKey = `${sink.name}:${sessionId ?? userId}`;
+
+    // Construct the update-status URL
+    const updateStatusUrl = `${apiBaseUrl}/update-status`;
+
+    if (isDryRun()) {
+        recordDryRun(sink.name, updateStatusUrl, statusPayload);
+        updateSinkHealth(sink, DRY_RUN_HEALTH);
+        return;
+    }
+
+    // Reconnecting after the rotation sends the current status with the new token
+    if (sink.primary && isRotatingToken()) {
+        log(LogLevel.Debug, 'Authentication token is being rotated, skipping status update');
+        return;
+    }
+
+    // While the outbox is backing off, only replace the queued payload so the newest status gets replayed
+    if (isBackingOff(outboxKey)) {
+        log(LogLevel.Debug, `Outbox is backing off, queueing status payload for ${sink.name}`);
+        supersedeStatus(outboxKey, statusPayload);
+        return;
+    }
+
+    // Prefer the persistent connection when it is open, HTTP is the fallback while it (re)connects
+    if (sink.primary && socketTransport?.send(statusPayload)) {
+        log(LogLevel.Trace, `Sent status payload over WebSocket: ${JSON.stringify(statusPayload)}`);
+        discardStatus(outboxKey);
+        return;
+    }
+
+    let queued = false;
+    let reported = false;
 
     try {
-        // Always include userId in the outgoing status data
-        const statusPayload = {
-            timestamp: now,
-            userId: userId,
-            ...statusData,
-        };
-        log(LogLevel.Debug, `Sending status payload: ${JSON.stringify(statusPayload)}`);
-        
-        // Construct the update-status URL
-        const updateStatusUrl = `${apiBaseUrl}/update-status`;
+        log(LogLevel.Trace, `Sending status payload to ${sink.name}: ${JSON.stringify(statusPayload)}`);
+
         let response = await postStatus(updateStatusUrl, statusPayload, authToken);
 
         // If user not found (404), try to register the user and then retry
@@ -87,7 +474,7 @@ async function sendStatusToAPI(statusData: any) {
                 if (registerResponse.ok) {
                     log(LogLevel.Info, `Successfully registered user: ${userId}`);
                     if (!config[CONFIG_KEYS.SuppressNotifications]) {
-                        void window.showInformationMessage(`Successfully registered with API as user ${userId}`);
+                        void window.showInformationMessage(`Successfully registered with ${label} as user ${userId}`);
                     }
                     
                     // Retry the original status update
@@ -111,11 +498,9 @@ async function sendStatusToAPI(statusData: any) {
         }
 
         if (response.ok) {
-            const responseData = await response.json() as any;
-            statusBarIcon.text = '$(globe) Connected to API';
-            statusBarIcon.tooltip = 'Connected to API';
-            clearStatusBarCommand();
-            log(LogLevel.Debug, 'Successfully sent status to API');
+            discardStatus(outboxKey);
+            updateSinkHealth(sink, { status: 'ok', text: '$(globe) Connected to API', tooltip: 'Connected to API' });
+            log(LogLevel.Debug, `Successfully sent status to ${sink.name}`);
         } else {
             // Handle specific error cases (excluding 404 which we handled above)
             let errorMessage = `API returned status ${response.status}: ${response.statusText}`;
@@ -130,32 +515,29 @@ async function sendStatusToAPI(statusData: any) {
                 // If we can't parse the error response, use the default message
             }
 
+            if (isRetryableStatus(response.status)) {
+                enqueueStatus(outboxKey, updateStatusUrl, statusPayload, parseRetryAfter(response.headers.get('Retry-After')), sink.name);
+                queued = true;
+            }
+
             // Handle specific HTTP status codes
             switch (response.status) {
                 case 401:
                     // Authentication failed - invalid token
-                    log(LogLevel.Error, `Authentication failed: ${errorMessage}`);
-                    statusBarIcon.text = '$(warning) Auth Failed';
-                    statusBarIcon.tooltip = `Authentication failed. Generate a new token using the command palette.`;
-                    if (!config[CONFIG_KEYS.SuppressNotifications]) {
-                        const action = await window.showErrorMessage(
-                            `API authentication failed. Your token may be invalid.`,
-                            'Generate New Token and User ID'
-                        );
-                        if (action === 'Generate New Token and User ID') {
-                            await commands.executeCommand('vscodeStatus.generateNewUserId')
-                            await commands.executeCommand('vscodeStatus.generateNewToken');
-                            await commands.executeCommand('vscodeStatus.reconnect');
-                        }
-                    }
+                    await handleAuthFailure(sink, errorMessage);
                     shouldShowNotification = false;
                     break;
                     
                 case 429:
                     // Rate limited
                     log(LogLevel.Warn, `Rate limited: ${errorMessage}`);
-                    statusBarIcon.text = '$(clock) Rate Limited';
-                    statusBarIcon.tooltip = `API rate limited. Will retry automatically.`;
+                    updateSinkHealth(sink, {
+                        status: 'error',
+                        text: '$(clock) Rate Limited',
+                        tooltip: `API rate limited. Will retry automatically.`,
+                        retryable: true,
+                        lastError: errorMessage,
+                    });
                     shouldShowNotification = false; // Don't spam user with rate limit notifications
                     break;
 
@@ -165,64 +547,248 @@ async function sendStatusToAPI(statusData: any) {
                 case 504:
                     // Server errors
                     log(LogLevel.Error, `Server error: ${errorMessage}`);
-                    statusBarIcon.text = '$(warning) Server Error';
-                    statusBarIcon.tooltip = `Server error: ${errorMessage}`;
+                    updateSinkHealth(sink, {
+                        status: 'error',
+                        text: '$(warning) Server Error',
+                        tooltip: `Server error: ${errorMessage}`,
+                        retryable: true,
+                        lastError: errorMessage,
+                    });
                     break;
                     
                 default:
                     // Other errors
                     log(LogLevel.Error, `Unexpected API error: ${errorMessage}`);
-                    statusBarIcon.text = '$(warning) API Error';
-                    statusBarIcon.tooltip = `API error: ${errorMessage}`;
+                    updateSinkHealth(sink, {
+                        status: 'error',
+                        text: '$(warning) API Error',
+                        tooltip: `API error: ${errorMessage}`,
+                        retryable: true,
+                        lastError: errorMessage,
+                    });
                     break;
             }
             
             if (shouldShowNotification && !config[CONFIG_KEYS.SuppressNotifications]) {
-                void window.showErrorMessage(`An API error occurred: ${errorMessage}`);
+                void window
+                    .showErrorMessage(`An error occurred with the ${label}: ${errorMessage}`, 'Show Logs')
+                    .then((action) => action === 'Show Logs' && showLogs());
             }
-            // Allow user to click the status bar to retry
-            makeStatusBarRetryable();
             
+            reported = true;
             throw new Error(errorMessage);
         }
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        
+
+        if (!queued && isRetryableError(error)) {
+            enqueueStatus(outboxKey, updateStatusUrl, statusPayload, undefined, sink.name);
+        }
+
+        // HTTP errors were already reported above
+        if (reported) return;
+
         // Handle different types of network errors
         if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('ENOTFOUND')) {
             log(LogLevel.Error, `Network connection failed: ${errorMessage}`);
-            statusBarIcon.text = '$(warning) Connection Failed';
-            statusBarIcon.tooltip = `Cannot connect to API server. Check your API URL and network connection.`;
+            updateSinkHealth(sink, {
+                status: 'error',
+                text: '$(warning) Connection Failed',
+                tooltip: `Cannot connect to API server. Check your API URL and network connection.`,
+                retryable: true,
+                lastError: errorMessage,
+            });
             if (!config[CONFIG_KEYS.SuppressNotifications]) {
-                void window.showErrorMessage(`Cannot connect to API. Check your API URL in settings.`);
+                void window.showErrorMessage(`Cannot connect to ${label}. Check your API URL in settings.`);
             }
-            makeStatusBarRetryable();
         } else if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
             log(LogLevel.Warn, `API request timeout: ${errorMessage}`);
-            statusBarIcon.text = '$(clock) Request Timeout';
-            statusBarIcon.tooltip = `API request timed out. Will retry automatically.`;
+            updateSinkHealth(sink, {
+                status: 'error',
+                text: '$(clock) Request Timeout',
+                tooltip: `API request timed out. Will retry automatically.`,
+                retryable: true,
+                lastError: errorMessage,
+            });
             // Don't show notification for timeouts to avoid spam
-            makeStatusBarRetryable();
         } else if (errorMessage.includes('certificate') || errorMessage.includes('SSL') || errorMessage.includes('TLS')) {
             log(LogLevel.Error, `SSL/TLS error: ${errorMessage}`);
-            statusBarIcon.text = '$(warning) SSL Error';
-            statusBarIcon.tooltip = `SSL/TLS certificate error. Check your API base URL and certificates.`;
+            updateSinkHealth(sink, {
+                status: 'error',
+                text: '$(warning) SSL Error',
+                tooltip: `SSL/TLS certificate error. Check your API base URL and certificates.`,
+                retryable: true,
+                lastError: errorMessage,
+            });
             if (!config[CONFIG_KEYS.SuppressNotifications]) {
-                void window.showErrorMessage(`SSL/TLS error connecting to API: ${errorMessage}`);
+                void window.showErrorMessage(`SSL/TLS error connecting to ${label}: ${errorMessage}`);
             }
-            makeStatusBarRetryable();
         } else {
-            log(LogLevel.Error, `Failed to send status to API: ${errorMessage}`);
-            statusBarIcon.text = '$(warning) API Connection Failed';
-            statusBarIcon.tooltip = `API connection failed`;
+            log(LogLevel.Error, `Failed to send status to ${sink.name}: ${errorMessage}`);
+            updateSinkHealth(sink, {
+                status: 'error',
+                text: '$(warning) API Connection Failed',
+                tooltip: `API connection failed`,
+                retryable: true,
+                lastError: errorMessage,
+            });
             if (!config[CONFIG_KEYS.SuppressNotifications]) {
-                void window.showErrorMessage(`Failed to connect to the API: ${errorMessage}`);
+                void window.showErrorMessage(`Failed to connect to the ${label}: ${errorMessage}`);
             }
-            makeStatusBarRetryable();
         }
     }
 }
 
+// Replays a queued status payload from the outbox
+async function sendQueuedStatus(entry: OutboxEntry) {
+    const sink = findSink(entry.sink ?? PRIMARY_SINK_NAME);
+
+    // Statuses queued before the dry run started stay queued, they are sent once it ends
+    if (isDryRun()) {
+        log(LogLevel.Debug, `Dry run, holding back queued status for ${entry.sink ?? PRIMARY_SINK_NAME}`);
+        return undefined;
+    }
+
+    if (sink?.primary && isRotatingToken()) {
+        log(LogLevel.Debug, 'Authentication token is being rotated, holding back queued status');
+        return undefined;
+    }
+
+    // Entries outlive reloads, their sink may be gone or point somewhere else by now. Its token must not go to the old URL
+    if (!sink || entry.url !== (sink.type === 'webhook' ? sink.url : `${sink.url}/update-status`)) {
+        throw new Error(`sink "${entry.sink ?? PRIMARY_SINK_NAME}" no longer exists or its URL changed`);
+    }
+
+    const response = sink.type === 'webhook'
+        ? await sendWebhook(entry.url, webhookRequest(sink, entry.payload))
+        : await postStatus(entry.url, entry.payload, sink.token);
+
+    if (response.ok) {
+        updateSinkHealth(sink, { status: 'ok', text: '$(globe) Connected to API', tooltip: 'Connected to API' });
+    }
+
+    return response;
+}
+
+function primarySink() {
+    return findSink(PRIMARY_SINK_NAME) as Sink;
+}
+
+function handleSocketState(socketState: SocketState) {
+    switch (socketState) {
+        case 'connecting':
+            updateSinkHealth(primarySink(), {
+                status: 'pending',
+                text: '$(pulse) Connecting to API...',
+                tooltip: 'Opening live connection to API',
+            });
+            break;
+        case 'open':
+            updateSinkHealth(primarySink(), {
+                status: 'ok',
+                text: '$(plug) Connected to API',
+                tooltip: 'Connected to API (live connection)',
+            });
+            resendActivity();
+            break;
+        case 'reconnecting':
+            updateSinkHealth(primarySink(), {
+                status: 'pending',
+                text: '$(sync~spin) Reconnecting to API...',
+                tooltip: 'Live connection lost, reconnecting automatically. Updates are sent over HTTP meanwhile.',
+                retryable: true,
+            });
+            resetSendInterval();
+            break;
+        case 'closed':
+            resetSendInterval();
+            break;
+    }
+}
+
+async function handleServerEvent(event: ServerEvent) {
+    switch (event.type) {
+        case 'ack':
+            log(LogLevel.Debug, 'Successfully sent status to API');
+            break;
+        case 'token-revoked':
+            // Reconnecting with the same token is pointless until the user picks a new one
+            socketTransport?.dispose();
+            socketTransport = undefined;
+            await handleAuthFailure(primarySink(), event.reason ?? 'Token was revoked by the server');
+            break;
+        case 'rate-limit':
+            setSendInterval(event.intervalMs);
+            break;
+        case 'error':
+            log(LogLevel.Error, `API error: ${event.error}`);
+            updateSinkHealth(primarySink(), {
+                status: 'error',
+                text: '$(warning) API Error',
+                tooltip: `API error: ${event.error}`,
+            });
+            break;
+    }
+}
+
+// Best-effort notice that this session has ended, so the API doesn't keep showing a stale status
+async function sendOfflineStatus() {
+    if (!sessionId) return;
+
+    const endedSessionId = sessionId;
+    const reported = sessionReported;
+    sessionId = undefined;
+    sessionReported = false;
+
+    // The API clears the status per user, a window that never reported would take down the leader's status
+    if (!reported) {
+        log(LogLevel.Debug, `Ending session ${endedSessionId} without an offline status, it never reported`);
+        return;
+    }
+
+    const config = getConfig();
+    const offlinePayload = {
+        timestamp: Date.now(),
+        userId: config[CONFIG_KEYS.UserId],
+        sessionId: endedSessionId,
+        appName: env.appName,
+        isOffline: true,
+    };
+
+    log(LogLevel.Info, `Ending session ${endedSessionId}`);
+
+    await Promise.all(
+        getEnabledSinks().map(async (sink) => {
+            discardStatus(`${sink.name}:${endedSessionId}`);
+            sinkSenders.get(`${sink.name}:${sink.intervalMs}`)?.cancel();
+
+            // Webhook bodies are user-defined, there is no offline shape to send them
+            if (sink.type === 'webhook') return;
+
+            if (isDryRun()) {
+                recordDryRun(sink.name, `${sink.url}/update-status`, offlinePayload);
+                return;
+            }
+
+            if (sink.primary && socketTransport?.send(offlinePayload)) return;
+
+            try {
+                await postStatus(`${sink.url}/update-status`, offlinePayload, sink.token, OFFLINE_STATUS_TIMEOUT_MS);
+            } catch (error) {
+                log(LogLevel.Warn, `Failed to send offline status to ${sink.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }),
+    );
+}
+
+// Sent even when nothing changed, which also refreshes the idle duration and session stats
+async function sendHeartbeat() {
+    if (!sessionId) return;
+
+    log(LogLevel.Trace, `Sending heartbeat for session ${sessionId}`);
+    await sendActivity(true);
+}
+
 async function connect() {
     log(LogLevel.Info, 'Connecting to API');
     
@@ -231,22 +797,116 @@ async function connect() {
     
     cleanUp();
 
-    statusBarIcon.text = '$(globe) Connected to API';
-    statusBarIcon.tooltip = 'Connected to API';
-    clearStatusBarCommand();
+    // The session starts once the schedule allows sharing again
+    isOutsideSchedule = !isWithinSchedule();
+    if (isOutsideSchedule) {
+        log(LogLevel.Info, 'Outside sharing schedule, waiting to connect');
+        clearSinkHealth();
+        renderStatusBar();
+        return;
+    }
+
+    sessionId = generateGuid();
+    sessionReported = false;
+    log(LogLevel.Info, `Started session ${sessionId}`);
+    startStatsSession();
+
+    clearSinkHealth();
+    renderStatusBar();
+
+    // Picks up interval changes from the settings, a rate limit of the previous connection no longer applies
+    serverIntervalMs = 0;
+    throttledSendActivity.cancel();
+    throttledSendActivity = createSender();
+    resendActivity();
 
-    void throttledSendActivity();
     const onChangeActiveTextEditor = window.onDidChangeActiveTextEditor(async () => throttledSendActivity());
     const onChangeTextDocument = workspace.onDidChangeTextDocument(() => throttledSendActivity());
-    const onStartDebugSession = debug.onDidStartDebugSession(async () => throttledSendActivity());
-    const onTerminateDebugSession = debug.onDidTerminateDebugSession(async () => throttledSendActivity());
+    // Added or removed folders can change which exclude rules apply
+    const onChangeWorkspaceFolders = workspace.onDidChangeWorkspaceFolders(() => throttledSendActivity());
+    // Notebooks, custom editors and diffs are followed through their tabs
+    const onChangeActiveNotebookEditor = window.onDidChangeActiveNotebookEditor(() => throttledSendActivity());
+    const onChangeNotebookSelection = window.onDidChangeNotebookEditorSelection(() => throttledSendActivity());
+    const onChangeTabs = window.tabGroups.onDidChangeTabs(() => throttledSendActivity());
 
-    listeners.push(onChangeActiveTextEditor, onChangeTextDocument, onStartDebugSession, onTerminateDebugSession);
+    listeners.push(
+        onChangeActiveTextEditor,
+        onChangeTextDocument,
+        onChangeWorkspaceFolders,
+        onChangeActiveNotebookEditor,
+        onChangeNotebookSelection,
+        onChangeTabs,
+    );
+
+    // Lets servers expire sessions that stop sending heartbeats
+    const heartbeatIntervalMs = getConfig()[CONFIG_KEYS.HeartbeatInterval] * 1_000;
+    if (heartbeatIntervalMs > 0) {
+        const heartbeat = setInterval(() => void sendHeartbeat(), heartbeatIntervalMs);
+        listeners.push({ dispose: () => clearInterval(heartbeat) });
+    }
+
+    // Dry runs only go through HTTP, where they are intercepted
+    if (getConfig()[CONFIG_KEYS.Transport] === 'websocket' && !isDryRun()) {
+        const transport = createSocketTransport({
+            url: toSocketUrl(primarySink().url),
+            getToken: getAuthToken,
+            onStateChange: handleSocketState,
+            onServerEvent: (event) => void handleServerEvent(event),
+        });
+        socketTransport = transport;
+        listeners.push(transport);
+    }
+}
+
+async function handleScheduleEvent(event: ScheduleEvent) {
+    switch (event) {
+        case 'snooze':
+            // Replace the shared details right away instead of leaving them up until the next change
+            renderStatusBar();
+            void throttledSendActivity();
+            throttledSendActivity.flush();
+            void throttledRecordActivity();
+            break;
+        case 'schedule':
+            if (!isWithinSchedule() && sessionId) {
+                isOutsideSchedule = true;
+                throttledSendActivity.cancel();
+                await sendOfflineStatus();
+                cleanUp();
+                clearSinkHealth();
+                renderStatusBar();
+            } else if (isWithinSchedule() && isOutsideSchedule) {
+                await connect();
+            }
+            break;
+        case 'tick':
+            // Keeps the snooze countdown current
+            if (isSnoozed()) renderStatusBar();
+            break;
+    }
 }
 
 export async function activate(context: ExtensionContext) {
+    context.subscriptions.push(...initLogger(context));
     log(LogLevel.Info, 'VSCode Status activated');
 
+    // The token has to be loaded before anything gets sent, including queued statuses
+    await initTokenStore(context);
+    initOutbox(context.globalState, sendQueuedStatus);
+    initJournal(context);
+    initSchedule(context.globalState, (event) => void handleScheduleEvent(event));
+    initWindowCoordinator(context, (leader) => {
+        // The new leader reports right away instead of waiting for the next editor event
+        if (leader) {
+            resendActivity();
+        } else {
+            // The new leader's status replaces ours, going offline later must not clear it
+            sessionReported = false;
+            void flushJournal();
+        }
+        syncLocalServer(leader);
+    });
+
     // Ensure userId and authToken are generated and saved only if missing or empty
     let userId = config[CONFIG_KEYS.UserId];
     if (!userId || typeof userId !== 'string' || userId.trim() === '' || userId.length < 16) {
@@ -259,28 +919,15 @@ export async function activate(context: ExtensionContext) {
         }
     }
 
-    let authToken = config[CONFIG_KEYS.AuthToken];
-    if (!authToken || typeof authToken !== 'string' || authToken.trim() === '' || authToken.length < 8) {
-        authToken = generateGuid();
+    if (getAuthToken().trim().length < 8) {
         try {
-            await config.update('authToken', authToken, ConfigurationTarget.Global);
-            log(LogLevel.Info, `Generated new authentication token (activate): ${authToken}`);
+            await setAuthToken(generateGuid());
+            log(LogLevel.Info, 'Generated new authentication token (activate)');
         } catch (error) {
             log(LogLevel.Error, `Failed to save authentication token (activate): ${error as string}`);
         }
     }
 
-    let isWorkspaceExcluded = false;
-    for (const pattern of config[CONFIG_KEYS.WorkspaceExcludePatterns]) {
-        const regex = new RegExp(pattern);
-        const folders = workspace.workspaceFolders;
-        if (!folders) break;
-        if (folders.some((folder) => regex.test(folder.uri.fsPath))) {
-            isWorkspaceExcluded = true;
-            break;
-        }
-    }
-
     const enable = async (update = true) => {
         if (update) {
             try {
@@ -291,7 +938,6 @@ export async function activate(context: ExtensionContext) {
         log(LogLevel.Info, 'Enable: Cleaning up old listeners');
         cleanUp();
         statusBarIcon.text = '$(pulse) Connecting to API...';
-        clearStatusBarCommand();
         statusBarIcon.show();
         log(LogLevel.Info, 'Enable: Attempting to connect to API');
         void connect();
@@ -304,6 +950,10 @@ export async function activate(context: ExtensionContext) {
             } catch {}
         }
 
+        isOutsideSchedule = false;
+        throttledSendActivity.cancel();
+        await sendOfflineStatus();
+
         log(LogLevel.Info, 'Disable: Cleaning up old listeners');
         cleanUp();
         log(LogLevel.Info, 'Disable: Disconnected from API');
@@ -318,63 +968,355 @@ export async function activate(context: ExtensionContext) {
 
     const disconnecter = commands.registerCommand('vscodeStatus.disconnect', async () => {
         isDisconnectedFromAPI = true;
-        statusBarIcon.text = '$(circle-slash) Disconnected from API';
-        statusBarIcon.tooltip = 'Disconnected from API (in-memory). Click to reconnect.';
-        statusBarIcon.command = 'vscodeStatus.reconnect'; // Make it clickable to reconnect
+        isOutsideSchedule = false;
+        throttledSendActivity.cancel();
+        await sendOfflineStatus();
+        clearSinkHealth();
+        renderStatusBar();
         log(LogLevel.Info, 'Disconnected from API (in-memory)');
     });
 
+    const controlPanel = commands.registerCommand('vscodeStatus.showControlPanel', async () => {
+        await showControlPanel(controlPanelState());
+    });
+
+    const pauser = commands.registerCommand('vscodeStatus.pause', async () => {
+        const options = [
+            { label: 'For 15 Minutes', until: () => dayjs().add(15, 'minute').valueOf() },
+            { label: 'For 1 Hour', until: () => dayjs().add(1, 'hour').valueOf() },
+            { label: 'Until Tomorrow', until: () => dayjs().add(1, 'day').startOf('day').valueOf() },
+            { label: 'Until Resumed', until: () => null },
+        ];
+        const picked = await window.showQuickPick(options, { title: 'Pause Sharing', placeHolder: 'How long to pause sharing for' });
+        if (!picked) return;
+
+        await snooze(picked.until());
+    });
+
+    const resumer = commands.registerCommand('vscodeStatus.resume', async () => {
+        await resume();
+    });
+
+    const privateModeToggler = commands.registerCommand('vscodeStatus.togglePrivateMode', async () => {
+        const privateMode = !isPrivateMode();
+        try {
+            await config.update(CONFIG_KEYS.PrivateMode, privateMode, ConfigurationTarget.Global); // Save to user settings (global)
+            log(LogLevel.Info, `Private mode ${privateMode ? 'enabled' : 'disabled'}`);
+        } catch (error) {
+            await window.showErrorMessage(`Failed to toggle private mode: ${error as string}`);
+            log(LogLevel.Error, `Failed to toggle private mode: ${error as string}`);
+            return;
+        }
+
+        renderStatusBar();
+        void throttledSendActivity();
+        throttledSendActivity.flush();
+        void throttledRecordActivity();
+    });
+
+    const logViewer = commands.registerCommand('vscodeStatus.showLogs', () => showLogs());
+
+    const logFileRevealer = commands.registerCommand('vscodeStatus.revealLogFile', async () => {
+        if (await revealLogFile()) return;
+
+        const action = await window.showInformationMessage('Writing logs to a file is turned off.', 'Turn On');
+        if (action === 'Turn On') {
+            await config.update(CONFIG_KEYS.LogToFile, true, ConfigurationTarget.Global); // Save to user settings (global)
+        }
+    });
+
+    const settingsOpener = commands.registerCommand('vscodeStatus.openSettings', async () => {
+        await commands.executeCommand('workbench.action.openSettings', '@ext:PowerPCFan.vscode-status-extension');
+    });
+
     const generateNewToken = commands.registerCommand('vscodeStatus.generateNewToken', async () => {
-        const newToken = generateGuid();
         try {
-            await config.update('authToken', newToken, ConfigurationTarget.Global); // Save to user settings (global)
-            await window.showInformationMessage(`Generated new authentication token.`);
-            log(LogLevel.Info, `Generated new authentication token: ${newToken}`);
+            await rotateAuthToken();
+            await window.showInformationMessage(`Generated new authentication token. The previous token no longer works.`);
+            await commands.executeCommand('vscodeStatus.reconnect');
         } catch (error) {
             await window.showErrorMessage(`Failed to generate new token: ${error as string}`);
             log(LogLevel.Error, `Failed to generate new token: ${error as string}`);
         }
     });
 
+    const showToken = commands.registerCommand('vscodeStatus.showToken', async () => {
+        const action = await window.showInformationMessage(
+            `Your authentication token is: ${getAuthToken()}`,
+            { modal: true, detail: 'Anyone with this token can update your status. Keep it private.' },
+            'Copy to Clipboard',
+        );
+        if (action === 'Copy to Clipboard') {
+            await commands.executeCommand('vscodeStatus.copyToken');
+        }
+    });
+
+    const copyToken = commands.registerCommand('vscodeStatus.copyToken', async () => {
+        await env.clipboard.writeText(getAuthToken());
+        void window.showInformationMessage('Copied authentication token to clipboard.');
+    });
+
+    const replaceToken = commands.registerCommand('vscodeStatus.replaceToken', async () => {
+        const newToken = await window.showInputBox({
+            title: 'Replace Authentication Token',
+            prompt: 'Enter the authentication token to use for API requests',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: (value) => (value.trim().length < 8 ? 'The token must be at least 8 characters long' : undefined),
+        });
+        if (!newToken) return;
+
+        try {
+            await setAuthToken(newToken.trim());
+            void window.showInformationMessage('Replaced authentication token.');
+            log(LogLevel.Info, 'Replaced authentication token');
+            await commands.executeCommand('vscodeStatus.reconnect');
+        } catch (error) {
+            await window.showErrorMessage(`Failed to replace token: ${error as string}`);
+            log(LogLevel.Error, `Failed to replace token: ${error as string}`);
+        }
+    });
+
+    // Tokens and HMAC secrets of extra sinks, the primary sink uses the authentication token
+    const sinkSecretSetter = commands.registerCommand('vscodeStatus.setSinkSecret', async () => {
+        const sinks = getSinks().filter((sink) => sink.name !== PRIMARY_SINK_NAME);
+        if (!sinks.length) {
+            void window.showInformationMessage('No sinks configured besides the primary API. Add them in the vscodeStatus.sinks setting.');
+            return;
+        }
+
+        const sinkPick = await window.showQuickPick(
+            sinks.map((sink) => ({ label: sink.name, description: sink.type, sink })),
+            { title: 'Set Sink Secret', placeHolder: 'Sink to set a secret for' },
+        );
+        if (!sinkPick) return;
+
+        const kinds: { label: string; secretKind: SinkSecretKind }[] = [{ label: 'Authentication Token', secretKind: 'authToken' }];
+        if (sinkPick.sink.type === 'webhook') kinds.push({ label: 'HMAC Secret', secretKind: 'hmacSecret' });
+
+        const kindPick = kinds.length === 1 ? kinds[0] : await window.showQuickPick(kinds, { title: 'Set Sink Secret', placeHolder: 'Secret to set' });
+        if (!kindPick) return;
+
+        const value = await window.showInputBox({
+            title: `Set ${kindPick.label} of ${sinkPick.label}`,
+            prompt: 'Leave empty to remove it',
+            password: true,
+            ignoreFocusOut: true,
+        });
+        if (value === undefined) return;
+
+        try {
+            await setSinkSecret(sinkPick.label, kindPick.secretKind, value.trim());
+            const action = value.trim() ? 'Set' : 'Removed';
+            void window.showInformationMessage(`${action} ${kindPick.label.toLowerCase()} of sink "${sinkPick.label}".`);
+            log(LogLevel.Info, `${action} ${kindPick.secretKind} of sink "${sinkPick.label}"`);
+        } catch (error) {
+            await window.showErrorMessage(`Failed to set sink secret: ${error as string}`);
+            log(LogLevel.Error, `Failed to set sink secret: ${error as string}`);
+        }
+    });
+
     const generateNewUserId = commands.registerCommand('vscodeStatus.generateNewUserId', async () => {
         const newUserId = generateUserId();
         try {
-            await config.update('userId', newUserId, ConfigurationTarget.Global); // Save to user settings (global)
-            await window.showInformationMessage(`Generated new user ID: ${newUserId}`);
+            await setUserId(newUserId);
             log(LogLevel.Info, `Generated new user ID: ${newUserId}`);
         } catch (error) {
             await window.showErrorMessage(`Failed to generate new user ID: ${error as string}`);
             log(LogLevel.Error, `Failed to generate new user ID: ${error as string}`);
+            return;
+        }
+
+        // Register right away instead of waiting for the first status update to fail
+        try {
+            await register(newUserId);
+            await window.showInformationMessage(`Generated and registered new user ID: ${newUserId}`);
+        } catch (error) {
+            await window.showWarningMessage(`Generated new user ID ${newUserId}, but registering it failed: ${error as string}`);
+            log(LogLevel.Warn, `Failed to register new user ID: ${error as string}`);
         }
     });
 
-    context.subscriptions.push(reconnecter, disconnecter, generateNewToken, generateNewUserId);
+    const registrationChecker = commands.registerCommand('vscodeStatus.checkRegistration', async () => {
+        try {
+            if (await isRegistered()) {
+                await window.showInformationMessage(`User ${getUserId()} is registered.`);
+                return;
+            }
 
-    if (!isWorkspaceExcluded && config[CONFIG_KEYS.Enabled]) {
+            const action = await window.showWarningMessage(`User ${getUserId()} is not registered yet.`, 'Register');
+            if (action === 'Register') {
+                await commands.executeCommand('vscodeStatus.register');
+            }
+        } catch (error) {
+            await window.showErrorMessage(`Failed to check registration: ${error as string}`);
+            log(LogLevel.Error, `Failed to check registration: ${error as string}`);
+        }
+    });
+
+    const registerer = commands.registerCommand('vscodeStatus.register', async () => {
+        try {
+            const registered = await register();
+            await window.showInformationMessage(
+                registered ? `Registered as user ${getUserId()}.` : `User ${getUserId()} is already registered.`,
+            );
+        } catch (error) {
+            await window.showErrorMessage(`Failed to register: ${error as string}`);
+            log(LogLevel.Error, `Failed to register: ${error as string}`);
+        }
+    });
+
+    const userIdViewer = commands.registerCommand('vscodeStatus.showUserId', async () => {
+        const url = profileUrl();
+        const action = await window.showInformationMessage(
+            `Your user ID is ${getUserId()}. Others can follow your status at ${url}`,
+            'Copy User ID',
+            'Copy Profile URL',
+            'Open Profile',
+        );
+
+        if (action === 'Copy User ID') {
+            await env.clipboard.writeText(getUserId());
+        } else if (action === 'Copy Profile URL') {
+            await env.clipboard.writeText(url);
+        } else if (action === 'Open Profile') {
+            await env.openExternal(Uri.parse(url));
+        }
+    });
+
+    const accountDeleter = commands.registerCommand('vscodeStatus.deleteAccount', async () => {
+        const action = await window.showWarningMessage(
+            `Delete the account of user ${getUserId()}?`,
+            { modal: true, detail: 'Your status is removed from the API and reporting is disabled until you enable it again.' },
+            'Delete Account',
+        );
+        if (action !== 'Delete Account') return;
+
+        try {
+            // Stop reporting first, the next status would register the user again
+            await disable();
+            await deleteAccount();
+
+            // Re-enabling starts over with a fresh account instead of reviving the deleted one
+            await setUserId(generateUserId());
+            await setAuthToken(generateGuid());
+            await window.showInformationMessage('Deleted your account.');
+        } catch (error) {
+            await window.showErrorMessage(`Failed to delete account: ${error as string}`);
+            log(LogLevel.Error, `Failed to delete account: ${error as string}`);
+        }
+    });
+
+    // Returns the preview as well, so tests can run the command against a local API
+    const previewer = commands.registerCommand('vscodeStatus.previewStatus', async () => {
+        try {
+            const preview = await previewStatus();
+            await showStatusPreview(preview);
+            return preview;
+        } catch (error) {
+            await window.showErrorMessage(`Failed to preview status: ${error as string}`);
+            log(LogLevel.Error, `Failed to preview status: ${error as string}`);
+            return undefined;
+        }
+    });
+
+    const statsReporter = commands.registerCommand('vscodeStatus.showSessionStats', async () => {
+        try {
+            await showSessionStats();
+        } catch (error) {
+            await window.showErrorMessage(`Failed to show session stats: ${error as string}`);
+            log(LogLevel.Error, `Failed to show session stats: ${error as string}`);
+        }
+    });
+
+    const journalReporter = commands.registerCommand('vscodeStatus.showJournalReport', async () => {
+        try {
+            await showJournalReport();
+        } catch (error) {
+            await window.showErrorMessage(`Failed to open journal report: ${error as string}`);
+            log(LogLevel.Error, `Failed to open journal report: ${error as string}`);
+        }
+    });
+
+    context.subscriptions.push(
+        reconnecter,
+        disconnecter,
+        generateNewToken,
+        generateNewUserId,
+        journalReporter,
+        statsReporter,
+        previewer,
+        showToken,
+        copyToken,
+        replaceToken,
+        sinkSecretSetter,
+        registrationChecker,
+        registerer,
+        userIdViewer,
+        accountDeleter,
+        controlPanel,
+        pauser,
+        resumer,
+        privateModeToggler,
+        logViewer,
+        logFileRevealer,
+        settingsOpener,
+    );
+
+    // Idle and away transitions are sent once, so the API doesn't keep showing us as editing
+    context.subscriptions.push(
+        ...initIdleTracking(() => {
+            void throttledSendActivity();
+            throttledSendActivity.flush();
+            void throttledRecordActivity();
+        }),
+    );
+
+    // Debug sessions, tasks and terminal focus all change what is shared
+    const onActivityModeChange = () => {
+        void throttledSendActivity();
+        void throttledRecordActivity();
+    };
+    context.subscriptions.push(...initDebugTracking(onActivityModeChange), ...initTaskTracking(onActivityModeChange));
+    context.subscriptions.push(...initSessionStats(context.globalState));
+    context.subscriptions.push(...initFileSizeCache());
+    context.subscriptions.push(...initPreview());
+    context.subscriptions.push(...initLocalServer(isLeader, () => void throttledRecordActivity()));
+
+    // Journal listeners live for the whole session, independent of the API connection
+    context.subscriptions.push(
+        window.onDidChangeActiveTextEditor(() => throttledRecordActivity()),
+        workspace.onDidChangeTextDocument(() => throttledRecordActivity()),
+        workspace.onDidChangeWorkspaceFolders(() => throttledRecordActivity()),
+        window.onDidChangeActiveNotebookEditor(() => throttledRecordActivity()),
+        window.tabGroups.onDidChangeTabs(() => throttledRecordActivity()),
+    );
+    void throttledRecordActivity();
+
+    if (config[CONFIG_KEYS.Enabled]) {
         statusBarIcon.show();
         await connect();
     }
 
     window.onDidChangeWindowState(async (windowState) => {
-        if (config[CONFIG_KEYS.IdleTimeout] !== 0) {
-            if (windowState.focused) {
-                if (idle) {
-                    clearTimeout(idle);
-                }
+        setWindowFocused(windowState.focused);
 
-                throttledSendActivity();
-            } else {
-                idle = setTimeout(async () => {
-                    state = {};
-                    // When idle, just stop sending updates
-                }, config[CONFIG_KEYS.IdleTimeout] * 1_000);
-            }
+        if (windowState.focused) {
+            markActive();
         }
     });
 
     await getGit();
+    context.subscriptions.push(...(await initGitCache()));
 }
 
-export function deactivate() {
+export async function deactivate() {
+    throttledSendActivity.cancel();
+    await sendOfflineStatus();
     cleanUp();
+    disposeOutbox();
+    disposeSchedule();
+    await disposeWindowCoordinator();
+    throttledRecordActivity.cancel();
+    await flushJournal();
 }
@@ -0,0 +1,27 @@
+import type { Disposable, Uri } from 'vscode';
+import { workspace } from 'vscode';
+
+// Sizes on disk only change when a file is saved, renamed or deleted, so there is no need to stat on every update
+const sizes = new Map<string, number>();
+
+export async function getFileSize(uri: Uri) {
+    const key = uri.toString();
+    const cached = sizes.get(key);
+    if (cached !== undefined) return cached;
+
+    const { size } = await workspace.fs.stat(uri);
+    sizes.set(key, size);
+    return size;
+}
+
+export function initFileSizeCache(): Disposable[] {
+    return [
+        workspace.onDidSaveTextDocument((document) => sizes.delete(document.uri.toString())),
+        workspace.onDidSaveNotebookDocument((notebook) => sizes.delete(notebook.uri.toString())),
+        workspace.onDidRenameFiles(({ files }) => files.forEach(({ oldUri }) => sizes.delete(oldUri.toString()))),
+        workspace.onDidDeleteFiles(({ files }) => files.forEach((uri) => sizes.delete(uri.toString()))),
+        // Closed files can change outside of VS Code
+        workspace.onDidCloseTextDocument((document) => sizes.delete(document.uri.toString())),
+        { dispose: () => sizes.clear() },
+    ];
+}
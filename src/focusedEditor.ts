@@ -0,0 +1,109 @@
+import type { NotebookEditor, Tab, TextEditor, Uri } from 'vscode';
+import { PREVIEW_SCHEME } from './constants';
+import {
+    NotebookCellKind,
+    TabInputCustom,
+    TabInputNotebook,
+    TabInputNotebookDiff,
+    TabInputTextDiff,
+    TabInputWebview,
+    window,
+} from 'vscode';
+
+export type EditorKind = 'text' | 'notebook' | 'diff' | 'custom' | 'webview';
+
+export interface NotebookDetails {
+    kernelLanguage: string | undefined; // Language of the code cells, e.g. python
+    cellCount: number;
+    cellIndex: number | undefined; // Zero-based index of the selected cell
+}
+
+// Whatever the user is looking at, which isn't always a text editor
+export interface FocusedEditor {
+    kind: EditorKind;
+    uri: Uri | undefined; // Webviews have none
+    fileName: string; // The file path, or the tab label for webviews
+    languageId: string | undefined;
+    textEditor?: TextEditor | undefined; // For line and column values, also set for notebook cells and diffs
+    notebook?: NotebookDetails | undefined;
+    viewType?: string | undefined; // Custom editors and webviews, e.g. `hexEditor.hexedit`
+}
+
+const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+function activeTab(): Tab | undefined {
+    return window.tabGroups.activeTabGroup.activeTab;
+}
+
+function notebookDetails(editor: NotebookEditor): NotebookDetails {
+    const { notebook, selection } = editor;
+    const selected = notebook.cellCount ? notebook.cellAt(Math.min(selection.start, notebook.cellCount - 1)) : undefined;
+    const codeCell =
+        selected?.kind === NotebookCellKind.Code ? selected : notebook.getCells().find((cell) => cell.kind === NotebookCellKind.Code);
+
+    return {
+        kernelLanguage: codeCell?.document.languageId,
+        cellCount: notebook.cellCount,
+        cellIndex: selection.isEmpty ? undefined : selection.start,
+    };
+}
+
+function fromNotebook(editor: NotebookEditor, kind: EditorKind): FocusedEditor {
+    const notebook = notebookDetails(editor);
+    const cellEditor = window.activeTextEditor?.document.uri.scheme === NOTEBOOK_CELL_SCHEME ? window.activeTextEditor : undefined;
+
+    return {
+        kind,
+        uri: editor.notebook.uri,
+        fileName: editor.notebook.uri.fsPath,
+        languageId: notebook.kernelLanguage,
+        textEditor: cellEditor,
+        notebook,
+    };
+}
+
+function fromTextEditor(editor: TextEditor, kind: EditorKind): FocusedEditor {
+    return {
+        kind,
+        uri: editor.document.uri,
+        fileName: editor.document.fileName,
+        languageId: editor.document.languageId,
+        textEditor: editor,
+    };
+}
+
+// The active tab decides what is focused, the active text editor can be a leftover from an earlier tab
+export function getFocusedEditor(): FocusedEditor | undefined {
+    const tab = activeTab();
+    const input: unknown = tab?.input;
+    const textEditor = window.activeTextEditor;
+    const notebookEditor = window.activeNotebookEditor;
+
+    if (notebookEditor && (input instanceof TabInputNotebook || input instanceof TabInputNotebookDiff)) {
+        return fromNotebook(notebookEditor, input instanceof TabInputNotebookDiff ? 'diff' : 'notebook');
+    }
+
+    if (input instanceof TabInputTextDiff) {
+        // Either side can be focused, the modified one is what is being worked on
+        const editor = textEditor?.document.uri.toString() === input.original.toString() ? undefined : textEditor;
+        return editor
+            ? fromTextEditor(editor, 'diff')
+            : { kind: 'diff', uri: input.modified, fileName: input.modified.fsPath, languageId: textEditor?.document.languageId };
+    }
+
+    if (input instanceof TabInputCustom) {
+        return { kind: 'custom', uri: input.uri, fileName: input.uri.fsPath, languageId: undefined, viewType: input.viewType };
+    }
+
+    if (input instanceof TabInputWebview && tab) {
+        return { kind: 'webview', uri: undefined, fileName: tab.label, languageId: undefined, viewType: input.viewType };
+    }
+
+    // Text tabs, and editors without a tab (e.g. the output panel)
+    // The status preview shows what would be shared, it isn't something being worked on
+    if (textEditor && textEditor.document.uri.scheme !== NOTEBOOK_CELL_SCHEME && textEditor.document.uri.scheme !== PREVIEW_SCHEME) {
+        return fromTextEditor(textEditor, 'text');
+    }
+
+    return undefined;
+}
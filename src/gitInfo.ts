@@ -0,0 +1,150 @@
+import { basename } from 'node:path';
+import type { Disposable, Uri } from 'vscode';
+import type { Repository } from './@types/git';
+import { log, LogLevel } from './logger';
+import { getConfig, getGit } from './util';
+
+export interface ParsedRemote {
+    host: string;
+    owner: string;
+    repo: string;
+    webUrl: string;
+}
+
+export interface GitInfo {
+    name: string; // Repo name from the remote, or the folder name for repos without one
+    branch?: string | undefined;
+    remoteUrl?: string | undefined; // The raw fetch URL, only used for matching redaction rules
+    remote?: ParsedRemote | undefined;
+    dirtyCount?: number | undefined;
+    ahead?: number | undefined;
+    behind?: number | undefined;
+    lastCommit?: string | undefined;
+}
+
+interface CachedGitInfo {
+    key: string; // The settings the info was read with
+    info: Promise<GitInfo>;
+}
+
+// Reading the last commit runs git, so the info is kept until the repository state changes
+const cache = new Map<Repository, CachedGitInfo>();
+const watchers = new Map<Repository, Disposable>();
+
+// Handles `git@host:owner/repo.git`, `ssh://git@host:22/owner/repo.git` and `https://user@host/owner/repo`.
+// Nested groups (e.g. GitLab subgroups) end up in the owner
+export function parseRemoteUrl(url: string): ParsedRemote | undefined {
+    let host: string;
+    let path: string;
+
+    const scp = /^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/.exec(url);
+    if (scp && !/^[a-z]+:\/\//i.test(url)) {
+        host = scp[1] as string;
+        path = scp[2] as string;
+    } else {
+        try {
+            const parsed = new URL(url);
+            host = parsed.hostname;
+            path = parsed.pathname;
+        } catch {
+            return undefined;
+        }
+    }
+
+    const segments = path.replace(/\.git\/?$/, '').split('/').filter(Boolean);
+    const repo = segments.pop();
+    if (!host || !repo || !segments.length) return undefined;
+
+    const owner = segments.join('/');
+    return { host, owner, repo, webUrl: `https://${host}/${owner}/${repo}` };
+}
+
+// The repository owning the document. Only without a document it falls back to the one selected in the SCM view,
+// a file outside of every repository must not report the branch of another one
+async function findRepository(uri: Uri | undefined): Promise<Repository | undefined> {
+    const git = await getGit();
+    if (!git?.repositories.length) return undefined;
+
+    if (uri) return git.getRepository(uri) ?? undefined;
+
+    return git.repositories.find((repo) => repo.ui.selected) ?? git.repositories[0];
+}
+
+function countDirtyFiles(repo: Repository) {
+    const { indexChanges, workingTreeChanges, mergeChanges, untrackedChanges } = repo.state;
+    const files = new Set(
+        [...indexChanges, ...workingTreeChanges, ...mergeChanges, ...untrackedChanges].map((change) => change.uri.toString()),
+    );
+
+    return files.size;
+}
+
+async function lastCommitSubject(repo: Repository) {
+    try {
+        const [commit] = await repo.log({ maxEntries: 1 });
+        return commit?.message.split('\n')[0];
+    } catch (error) {
+        log(LogLevel.Debug, `Failed to read last commit: ${error as string}`);
+        return undefined;
+    }
+}
+
+function watch(repo: Repository) {
+    if (watchers.has(repo)) return;
+
+    watchers.set(repo, repo.state.onDidChange(() => cache.delete(repo)));
+}
+
+// Closed repositories are forgotten, their state no longer changes
+export async function initGitCache(): Promise<Disposable[]> {
+    const git = await getGit();
+    if (!git) return [];
+
+    return [
+        git.onDidCloseRepository((repo) => {
+            cache.delete(repo);
+            watchers.get(repo)?.dispose();
+            watchers.delete(repo);
+        }),
+        {
+            dispose: () => {
+                for (const watcher of watchers.values()) watcher.dispose();
+                watchers.clear();
+                cache.clear();
+            },
+        },
+    ];
+}
+
+async function readGitInfo(repo: Repository): Promise<GitInfo> {
+    const config = getConfig();
+    const { HEAD, remotes } = repo.state;
+    const remoteUrl = (remotes.find((remote) => remote.name === 'origin') ?? remotes[0])?.fetchUrl;
+    const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : undefined;
+
+    return {
+        name: remote?.repo ?? basename(repo.rootUri.fsPath),
+        branch: HEAD?.name,
+        remoteUrl,
+        remote,
+        dirtyCount: config.shareGitDirtyCount ? countDirtyFiles(repo) : undefined,
+        ahead: config.shareGitAheadBehind ? HEAD?.ahead : undefined,
+        behind: config.shareGitAheadBehind ? HEAD?.behind : undefined,
+        lastCommit: config.shareGitLastCommit ? await lastCommitSubject(repo) : undefined,
+    };
+}
+
+export async function getGitInfo(uri: Uri | undefined): Promise<GitInfo | undefined> {
+    const repo = await findRepository(uri);
+    if (!repo) return undefined;
+
+    const { shareGitDirtyCount, shareGitAheadBehind, shareGitLastCommit } = getConfig();
+    const key = JSON.stringify([shareGitDirtyCount, shareGitAheadBehind, shareGitLastCommit]);
+    const cached = cache.get(repo);
+    if (cached?.key === key) return cached.info;
+
+    watch(repo);
+    const info = readGitInfo(repo);
+    cache.set(repo, { key, info });
+    return info;
+}
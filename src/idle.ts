@@ -0,0 +1,79 @@
+import type { Disposable } from 'vscode';
+import { debug, window, workspace } from 'vscode';
+import { PREVIEW_SCHEME } from './constants';
+import { log, LogLevel } from './logger';
+import { getConfig } from './util';
+
+export type IdleState = 'active' | 'idle' | 'away';
+
+const IDLE_CHECK_INTERVAL_MS = 5_000; // 5 seconds
+
+let lastInputAt = Date.now();
+let idleState: IdleState = 'active';
+let onIdleStateChange: ((state: IdleState) => void) | undefined;
+
+export function getIdleState() {
+    return idleState;
+}
+
+// Time since the last input, only reported once the user counts as idle
+export function idleDuration() {
+    return idleState === 'active' ? 0 : Date.now() - lastInputAt;
+}
+
+function setIdleState(next: IdleState) {
+    if (idleState === next) return;
+
+    log(LogLevel.Info, `Idle state changed from ${idleState} to ${next}`);
+    idleState = next;
+    onIdleStateChange?.(next);
+}
+
+// Thresholds are in seconds, 0 disables them
+function checkIdle() {
+    const { idleTimeout, awayTimeout } = getConfig();
+    const elapsed = Date.now() - lastInputAt;
+
+    if (awayTimeout > 0 && elapsed >= awayTimeout * 1_000) {
+        setIdleState('away');
+    } else if (idleTimeout > 0 && elapsed >= idleTimeout * 1_000) {
+        setIdleState('idle');
+    } else {
+        setIdleState('active');
+    }
+}
+
+export function markActive() {
+    lastInputAt = Date.now();
+
+    if (idleState !== 'active') {
+        setIdleState('active');
+    }
+}
+
+export function initIdleTracking(onChange: (state: IdleState) => void): Disposable[] {
+    onIdleStateChange = onChange;
+    lastInputAt = Date.now();
+
+    const interval = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+    return [
+        // Output channels (including our own log) and the status preview change without any user input
+        workspace.onDidChangeTextDocument(
+            (event) => event.document.uri.scheme !== 'output' && event.document.uri.scheme !== PREVIEW_SCHEME && markActive(),
+        ),
+        window.onDidChangeTextEditorSelection(markActive),
+        window.onDidChangeTextEditorVisibleRanges(markActive),
+        window.onDidChangeActiveTextEditor(markActive),
+        window.onDidChangeActiveNotebookEditor(markActive),
+        window.onDidChangeNotebookEditorSelection(markActive),
+        window.tabGroups.onDidChangeTabGroups(markActive),
+        window.onDidChangeTerminalState(markActive),
+        // VS Code doesn't report terminal keystrokes, running commands is the closest there is
+        window.onDidStartTerminalShellExecution(markActive),
+        window.onDidEndTerminalShellExecution(markActive),
+        window.onDidChangeActiveTerminal(markActive),
+        debug.onDidChangeActiveStackItem(markActive),
+        { dispose: () => clearInterval(interval) },
+    ];
+}
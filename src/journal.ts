@@ -0,0 +1,146 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import dayjs from 'dayjs';
+import isoWeek from 'dayjs/plugin/isoWeek';
+import type { ExtensionContext } from 'vscode';
+import { window, workspace } from 'vscode';
+import type { StatusPayload } from './activity';
+import { log, LogLevel } from './logger';
+import { getConfig } from './util';
+
+dayjs.extend(isoWeek);
+
+interface JournalEntry extends StatusPayload {
+    start: number;
+    end: number;
+    duration: number;
+}
+
+const JOURNAL_FILE_NAME = 'journal.jsonl';
+const JOURNAL_MAX_GAP_MS = 900_000; // 15 minutes, longer gaps are most likely breaks
+
+let journalDir: string | undefined;
+let pending: { payload: StatusPayload; since: number } | undefined;
+
+export function initJournal(context: ExtensionContext) {
+    journalDir = context.globalStorageUri.fsPath;
+}
+
+export function isJournalEnabled() {
+    return getConfig().journalEnabled;
+}
+
+function journalPath() {
+    if (!journalDir) {
+        throw new Error('Journal has not been initialized');
+    }
+
+    return join(journalDir, JOURNAL_FILE_NAME);
+}
+
+async function append(entry: JournalEntry) {
+    try {
+        await mkdir(journalDir as string, { recursive: true });
+        await appendFile(journalPath(), `${JSON.stringify(entry)}\n`, 'utf8');
+    } catch (error) {
+        log(LogLevel.Error, `Failed to write journal entry: ${error as string}`);
+    }
+}
+
+// The previous status is written once the next one arrives, so its duration is known
+export async function recordStatus(payload: StatusPayload) {
+    const now = Date.now();
+    const previous = pending;
+    pending = { payload, since: now };
+
+    if (previous) {
+        const end = Math.min(now, previous.since + JOURNAL_MAX_GAP_MS);
+        await append({ ...previous.payload, start: previous.since, end, duration: end - previous.since });
+    }
+}
+
+export async function flushJournal() {
+    if (!pending) return;
+
+    const end = Math.min(Date.now(), pending.since + JOURNAL_MAX_GAP_MS);
+    const { payload, since } = pending;
+    pending = undefined;
+    await append({ ...payload, start: since, end, duration: end - since });
+}
+
+async function readEntries(): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+        content = await readFile(journalPath(), 'utf8');
+    } catch {
+        return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+
+        try {
+            entries.push(JSON.parse(line) as JournalEntry);
+        } catch {
+            log(LogLevel.Warn, 'Skipping malformed journal line');
+        }
+    }
+
+    return entries;
+}
+
+function formatDuration(ms: number) {
+    const minutes = Math.round(ms / 60_000);
+    return `${Math.floor(minutes / 60)}h ${(minutes % 60).toString().padStart(2, '0')}m`;
+}
+
+function table(title: string, totals: Map<string, number>) {
+    const rows = [...totals.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .map(([name, duration]) => `| ${name.replace(/\|/g, '\\|')} | ${formatDuration(duration)} |`);
+
+    return [`## ${title}`, '', '| Name | Time |', '| --- | --- |', ...(rows.length ? rows : ['| - | - |']), ''].join('\n');
+}
+
+function sum(entries: JournalEntry[], key: (entry: JournalEntry) => string | undefined) {
+    const totals = new Map<string, number>();
+
+    for (const entry of entries) {
+        const name = key(entry);
+        if (name === undefined) continue;
+        totals.set(name, (totals.get(name) ?? 0) + entry.duration);
+    }
+
+    return totals;
+}
+
+export function buildReport(entries: JournalEntry[]) {
+    const active = entries.filter((entry) => !entry.isIdling);
+    const total = active.reduce((acc, entry) => acc + entry.duration, 0);
+
+    return [
+        '# VSCode Status Journal',
+        '',
+        `Total active time: **${formatDuration(total)}** across ${entries.length.toLocaleString()} entries.`,
+        '',
+        table('Per day', sum(active, (entry) => dayjs(entry.start).format('YYYY-MM-DD'))),
+        table('Per week', sum(active, (entry) => `${dayjs(entry.start).isoWeekYear()}-W${dayjs(entry.start).isoWeek().toString().padStart(2, '0')}`)),
+        table('Per workspace', sum(active, (entry) => entry.workspace ?? 'No workspace')),
+        table('Per language', sum(active, (entry) => entry.language ?? 'Unknown')),
+        table('Per git branch', sum(active, (entry) => entry.gitBranch && `${entry.gitRepo ?? 'Unknown'} / ${entry.gitBranch}`)),
+    ].join('\n');
+}
+
+export async function showJournalReport() {
+    await flushJournal();
+    const entries = await readEntries();
+
+    if (!entries.length) {
+        void window.showInformationMessage('The journal is empty. Enable "vscodeStatus.journalEnabled" to start recording.');
+        return;
+    }
+
+    const document = await workspace.openTextDocument({ content: buildReport(entries), language: 'markdown' });
+    await window.showTextDocument(document, { preview: true });
+}
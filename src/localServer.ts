@@ -0,0 +1,195 @@
+import { timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { Disposable } from 'vscode';
+import { workspace } from 'vscode';
+import { log, LogLevel, registerSecret } from './logger';
+import { getConfig } from './util';
+import { isCoordinationEnabled } from './windowCoordinator';
+
+const LOCAL_SERVER_HOST = '127.0.0.1'; // Never reachable from other machines
+const LOCAL_SERVER_RETRY_MS = 5_000; // 5 seconds, e.g. until the previous leader window lets go of the port
+const SSE_KEEP_ALIVE_MS = 30_000; // 30 seconds, keeps proxies and idle timeouts from closing streams
+
+let server: Server | undefined;
+let retryTimer: NodeJS.Timeout | undefined;
+let keepAliveTimer: NodeJS.Timeout | undefined;
+let wanted = false;
+let onStart: (() => void) | undefined;
+
+const clients = new Set<ServerResponse>();
+let latestStatus: string | undefined;
+let updatedAt: number | undefined;
+
+function isAuthorized(req: IncomingMessage, url: URL) {
+    const { localServerToken } = getConfig();
+    if (!localServerToken) return true;
+
+    // EventSource can't send headers, so the token may also be passed as `?token=`
+    const given = req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? url.searchParams.get('token') ?? '';
+    const expected = Buffer.from(localServerToken);
+    const actual = Buffer.from(given);
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// A page on another site can resolve its own domain to 127.0.0.1 (DNS rebinding), its requests then carry that domain
+function isLocalHost(req: IncomingMessage) {
+    const hostname = req.headers.host?.replace(/:\d+$/, '');
+    return hostname === LOCAL_SERVER_HOST || hostname === 'localhost';
+}
+
+function statusBody() {
+    return `{"updatedAt":${updatedAt ?? null},"status":${latestStatus ?? null}}`;
+}
+
+function writeEvent(res: ServerResponse) {
+    res.write(`event: status\ndata: ${statusBody()}\n\n`);
+}
+
+function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', `http://${LOCAL_SERVER_HOST}`);
+
+    if (!isLocalHost(req)) {
+        res.writeHead(403, { 'Content-Type': 'application/json' }).end('{"error":"Forbidden host"}');
+        return;
+    }
+
+    // Browser sources (e.g. OBS overlays) are served from other origins. Without a token any web page could read the
+    // status that way, so browsers only get to read it when one is set
+    if (getConfig().localServerToken) {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization');
+    }
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+
+    if (req.method !== 'GET') {
+        res.writeHead(405, { Allow: 'GET' }).end();
+        return;
+    }
+
+    if (!isAuthorized(req, url)) {
+        res.writeHead(401, { 'Content-Type': 'application/json' }).end('{"error":"Invalid token"}');
+        return;
+    }
+
+    switch (url.pathname) {
+        case '/status':
+            res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }).end(statusBody());
+            break;
+        case '/events':
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-store', Connection: 'keep-alive' });
+            writeEvent(res);
+            clients.add(res);
+            req.on('close', () => clients.delete(res));
+            break;
+        default:
+            res.writeHead(404, { 'Content-Type': 'application/json' }).end('{"error":"Not found"}');
+            break;
+    }
+}
+
+// Only sent to stream clients when something changed, polling clients always get the latest status
+export function publishLocalStatus(status: object) {
+    const body = JSON.stringify(status);
+    if (body === latestStatus) return;
+
+    latestStatus = body;
+    updatedAt = Date.now();
+    for (const client of clients) writeEvent(client);
+}
+
+export function isLocalServerRunning() {
+    return !!server?.listening;
+}
+
+function listen() {
+    retryTimer = undefined;
+    if (!wanted || server) return;
+
+    const { localServerPort, localServerToken } = getConfig();
+    registerSecret(localServerToken);
+
+    const instance = createServer(handleRequest);
+    server = instance;
+
+    instance.on('error', (error: NodeJS.ErrnoException) => {
+        if (server !== instance) return;
+
+        server = undefined;
+        instance.close();
+        if (error.code === 'EADDRINUSE' && isCoordinationEnabled()) {
+            log(LogLevel.Warn, `Local status server: port ${localServerPort} is in use, retrying in ${LOCAL_SERVER_RETRY_MS / 1_000}s`);
+            retryTimer = setTimeout(listen, LOCAL_SERVER_RETRY_MS);
+        } else if (error.code === 'EADDRINUSE') {
+            // Without coordination every window is a leader, the first one to start keeps the port
+            log(LogLevel.Info, `Local status server: port ${localServerPort} is in use, another window is probably serving the status`);
+        } else {
+            log(LogLevel.Error, `Local status server failed: ${error.message}`);
+        }
+    });
+
+    instance.listen(localServerPort, LOCAL_SERVER_HOST, () => {
+        log(LogLevel.Info, `Local status server listening on http://${LOCAL_SERVER_HOST}:${localServerPort}`);
+        keepAliveTimer = setInterval(() => {
+            for (const client of clients) client.write(': keep-alive\n\n');
+        }, SSE_KEEP_ALIVE_MS);
+        onStart?.();
+    });
+}
+
+function stop() {
+    clearTimeout(retryTimer);
+    clearInterval(keepAliveTimer);
+    retryTimer = undefined;
+    keepAliveTimer = undefined;
+
+    for (const client of clients) client.end();
+    clients.clear();
+
+    if (server) {
+        log(LogLevel.Info, 'Local status server stopped');
+        server.close();
+        server = undefined;
+    }
+}
+
+// Runs in the window that reports status, since only one window can have the port
+export function syncLocalServer(isLeader: boolean) {
+    wanted = isLeader && getConfig().localServerEnabled;
+
+    if (!wanted) {
+        stop();
+    } else if (!server && !retryTimer) {
+        listen();
+    }
+}
+
+export function initLocalServer(isLeader: () => boolean, onListening: () => void): Disposable[] {
+    onStart = onListening;
+    syncLocalServer(isLeader());
+
+    return [
+        // Port and token changes need a fresh server
+        workspace.onDidChangeConfiguration((event) => {
+            if (
+                event.affectsConfiguration('vscodeStatus.localServerEnabled') ||
+                event.affectsConfiguration('vscodeStatus.localServerPort') ||
+                event.affectsConfiguration('vscodeStatus.localServerToken')
+            ) {
+                stop();
+                syncLocalServer(isLeader());
+            }
+        }),
+        {
+            dispose: () => {
+                wanted = false;
+                stop();
+            },
+        },
+    ];
+}
@@ -1,5 +1,8 @@
+import { appendFile, mkdir, rename, stat } from 'node:fs/promises';
+import { join } from 'node:path';
 import dayjs from 'dayjs';
-import { window } from 'vscode';
+import type { Disposable, ExtensionContext } from 'vscode';
+import { commands, Uri, window, workspace } from 'vscode';
 
 const outputChannel = window.createOutputChannel('VSCode Status Extension');
 
@@ -11,15 +14,130 @@ export const enum LogLevel {
     Warn = 'WARN',
 }
 
-function send(level: string, message: string) {
-    outputChannel.appendLine(`[${dayjs().format('DD/MM/YYYY HH:mm:ss')} - ${level}] ${message}`);
+export type LogSetting = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+// Extra details that help with diagnosing API problems, e.g. the request URL, HTTP status and latency
+export type LogContext = Record<string, string | number | boolean | undefined>;
+
+const LOG_SEVERITY: Record<LogLevel | 'OFF', number> = {
+    TRACE: 0,
+    DEBUG: 1,
+    INFO: 2,
+    WARN: 3,
+    ERROR: 4,
+    OFF: 5,
+};
+
+const LOG_FILE_NAME = 'vscode-status.log';
+const LOG_FILE_MAX_BYTES = 1_000_000; // 1 MB, then the file is rotated
+const LOG_FILE_COUNT = 3; // Rotated files that are kept, e.g. vscode-status.log.1 to .3
+
+let minSeverity = LOG_SEVERITY.INFO;
+let logFile: string | undefined;
+let logFileSize: number | undefined;
+let fileQueue = Promise.resolve();
+
+// Values that must never show up in the logs, e.g. auth tokens and webhook secrets
+const secrets = new Set<string>();
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+    [/(Bearer\s+)[^\s"']+/gi, '$1********'],
+    [/("(?:authToken|token|hmacSecret|secret)"\s*:\s*")[^"]*(")/gi, '$1********$2'],
+];
+
+export function registerSecret(secret: string | undefined) {
+    // Short values would mask unrelated parts of messages
+    if (secret && secret.length >= 8) {
+        secrets.add(secret);
+    }
+}
+
+export function maskSecrets(message: string) {
+    let masked = message;
+    for (const secret of secrets) {
+        masked = masked.split(secret).join('********');
+    }
+
+    for (const [pattern, replacement] of SECRET_PATTERNS) {
+        masked = masked.replace(pattern, replacement);
+    }
+
+    return masked;
+}
+
+export function showLogs() {
+    outputChannel.show(true);
+}
+
+// Shows the log file in the OS file manager, so it can be attached to bug reports. False when file logging is off
+export async function revealLogFile() {
+    if (!logFile) return false;
+
+    await fileQueue.catch(() => undefined);
+    await commands.executeCommand('revealFileInOS', Uri.file(logFile));
+    return true;
+}
+
+// Keeps the previous files around as .1, .2, ..., the oldest one is overwritten
+async function rotateLogFile(file: string) {
+    for (let index = LOG_FILE_COUNT - 1; index >= 1; index--) {
+        await rename(`${file}.${index}`, `${file}.${index + 1}`).catch(() => undefined);
+    }
+
+    await rename(file, `${file}.1`).catch(() => undefined);
+    logFileSize = 0;
 }
 
-export function log(level: LogLevel, message: Error | string) {
+async function appendToFile(file: string, line: string) {
+    logFileSize ??= await stat(file).then(({ size }) => size, () => 0);
+
+    const bytes = Buffer.byteLength(line);
+    if (logFileSize + bytes > LOG_FILE_MAX_BYTES) await rotateLogFile(file);
+
+    await appendFile(file, line);
+    logFileSize += bytes;
+}
+
+function writeToFile(line: string) {
+    const file = logFile;
+    if (!file) return;
+
+    // Writes are queued so lines keep their order and rotation doesn't race with appends
+    fileQueue = fileQueue
+        .then(() => appendToFile(file, `${line}\n`))
+        .catch((error: unknown) => {
+            logFile = undefined;
+            outputChannel.appendLine(`Stopped writing the log file: ${error instanceof Error ? error.message : String(error)}`);
+        });
+}
+
+function formatContext(context: LogContext | undefined) {
+    if (!context) return '';
+
+    const fields = Object.entries(context)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${typeof value === 'string' ? JSON.stringify(value) : String(value)}`);
+
+    return fields.length ? ` ${fields.join(' ')}` : '';
+}
+
+function send(level: LogLevel, message: string, context?: LogContext) {
+    const line = maskSecrets(`[${dayjs().format('YYYY-MM-DD HH:mm:ss.SSS')} - ${level}] ${message}${formatContext(context)}`);
+    outputChannel.appendLine(line);
+    writeToFile(line);
+}
+
+export function isLogLevelEnabled(level: LogLevel) {
+    return LOG_SEVERITY[level] >= minSeverity;
+}
+
+export function log(level: LogLevel, message: Error | string, context?: LogContext) {
+    if (!isLogLevelEnabled(level)) return;
+
     if (typeof message === 'string') {
-        send(level, message);
+        send(level, message, context);
     } else if (message instanceof Error) {
-        send(level, message.message);
+        send(level, message.message, context);
 
         if (message.stack) {
             send(level, message.stack);
@@ -27,7 +145,35 @@ export function log(level: LogLevel, message: Error | string) {
     } else if (typeof message === 'object') {
         try {
             const json = JSON.stringify(message, null, 2);
-            send(level, json);
+            send(level, json, context);
         } catch {}
     }
 }
+
+function applyLogSettings(logDirectory: string) {
+    const config = workspace.getConfiguration('vscodeStatus');
+    minSeverity = LOG_SEVERITY[config.get<LogSetting>('logLevel', 'info').toUpperCase() as LogLevel | 'OFF'] ?? LOG_SEVERITY.INFO;
+
+    const nextFile = config.get<boolean>('logToFile', false) ? join(logDirectory, LOG_FILE_NAME) : undefined;
+    if (nextFile === logFile) return;
+
+    logFile = nextFile;
+    logFileSize = undefined;
+    if (logFile) {
+        fileQueue = fileQueue.then(() => mkdir(logDirectory, { recursive: true })).then(() => undefined);
+    }
+}
+
+// The log file goes in the directory VS Code gives each extension for logs, next to its own log files
+export function initLogger(context: ExtensionContext): Disposable[] {
+    const logDirectory = context.logUri.fsPath;
+    applyLogSettings(logDirectory);
+
+    return [
+        workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('vscodeStatus.logLevel') || event.affectsConfiguration('vscodeStatus.logToFile')) {
+                applyLogSettings(logDirectory);
+            }
+        }),
+    ];
+}
@@ -0,0 +1,214 @@
+import type { Memento } from 'vscode';
+import type { Response } from 'node-fetch';
+import { log, LogLevel } from './logger';
+import { backoffDelay } from './util';
+
+export interface OutboxEntry {
+    key: string; // Entries sharing a key are collapsed, only the newest one is kept
+    sink?: string | undefined;
+    url: string;
+    payload: unknown;
+    attempts: number;
+    enqueuedAt: number;
+    nextAttemptAt: number;
+}
+
+// Resolves to undefined when the entry can't be sent right now (e.g. during a dry run), it is kept for later
+type Sender = (entry: OutboxEntry) => Promise<Response | undefined>;
+
+const OUTBOX_STATE_KEY = 'vscodeStatus.outbox';
+const OUTBOX_BASE_DELAY_MS = 2_000; // 2 seconds
+const OUTBOX_MAX_DELAY_MS = 300_000; // 5 minutes
+const OUTBOX_MAX_AGE_MS = 3_600_000; // 1 hour, older statuses are no longer worth replaying
+const OUTBOX_HOLD_MS = 30_000; // 30 seconds, how long held back entries wait before the next try
+
+let storage: Memento | undefined;
+let sender: Sender | undefined;
+let entries: OutboxEntry[] = [];
+let timer: NodeJS.Timeout | undefined;
+let flushing = false;
+
+export function isRetryableStatus(status: number) {
+    return status === 429 || status >= 500;
+}
+
+export function isRetryableError(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    // DNS and routing failures are common while switching networks or waking from sleep
+    return ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'ENETUNREACH', 'EHOSTUNREACH', 'timeout'].some((code) =>
+        message.includes(code),
+    );
+}
+
+// Retry-After is either a number of seconds or an HTTP date. A blank header counts as missing, Number('') would be 0
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+    const value = header?.trim();
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1_000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+function persist() {
+    void storage?.update(OUTBOX_STATE_KEY, entries);
+}
+
+function schedule() {
+    if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+    }
+
+    if (!entries.length || !sender) return;
+
+    const next = Math.min(...entries.map((entry) => entry.nextAttemptAt));
+    timer = setTimeout(() => void flushOutbox(), Math.max(0, next - Date.now()));
+}
+
+function dropStale() {
+    const cutoff = Date.now() - OUTBOX_MAX_AGE_MS;
+    const before = entries.length;
+    entries = entries.filter((entry) => entry.enqueuedAt >= cutoff);
+
+    if (entries.length !== before) {
+        log(LogLevel.Debug, `Outbox: dropped ${before - entries.length} stale entries`);
+    }
+}
+
+export function initOutbox(memento: Memento, send: Sender) {
+    storage = memento;
+    sender = send;
+    entries = memento.get<OutboxEntry[]>(OUTBOX_STATE_KEY, []);
+    dropStale();
+    persist();
+
+    if (entries.length) {
+        log(LogLevel.Info, `Outbox: restored ${entries.length} pending status updates`);
+    }
+
+    schedule();
+}
+
+export function enqueueStatus(
+    key: string,
+    url: string,
+    payload: unknown,
+    retryAfterMs?: number,
+    sink?: string,
+) {
+    const existing = entries.find((entry) => entry.key === key);
+    const attempts = existing ? existing.attempts + 1 : 0;
+    const delay = retryAfterMs ?? backoffDelay(attempts, OUTBOX_BASE_DELAY_MS, OUTBOX_MAX_DELAY_MS);
+
+    entries = entries.filter((entry) => entry.key !== key);
+    entries.push({
+        key,
+        sink,
+        url,
+        payload,
+        attempts,
+        enqueuedAt: Date.now(),
+        nextAttemptAt: Date.now() + delay,
+    });
+
+    log(LogLevel.Debug, `Outbox: queued status for retry in ${delay}ms (attempt ${attempts + 1})`);
+    persist();
+    schedule();
+}
+
+// Replace the queued payload for this key without touching its retry schedule
+export function supersedeStatus(key: string, payload: unknown) {
+    const entry = entries.find((entry) => entry.key === key);
+    if (!entry) return;
+
+    entry.payload = payload;
+    entry.enqueuedAt = Date.now();
+    persist();
+}
+
+// A newer status was delivered, so there is no point in replaying the queued one
+export function discardStatus(key: string) {
+    const before = entries.length;
+    entries = entries.filter((entry) => entry.key !== key);
+
+    if (entries.length !== before) {
+        persist();
+        schedule();
+    }
+}
+
+// Whether updates for this key should wait for the outbox instead of being posted right away
+export function isBackingOff(key: string) {
+    const entry = entries.find((entry) => entry.key === key);
+    return !!entry && entry.nextAttemptAt > Date.now();
+}
+
+export async function flushOutbox() {
+    if (flushing || !sender) return;
+    flushing = true;
+
+    try {
+        dropStale();
+        const due = entries.filter((entry) => entry.nextAttemptAt <= Date.now());
+
+        for (const entry of due) {
+            const sent = entry.payload;
+            let retryAfterMs: number | undefined;
+            let retry = false;
+
+            try {
+                const response = await sender(entry);
+                if (!response) {
+                    entry.nextAttemptAt = Date.now() + OUTBOX_HOLD_MS;
+                    continue;
+                } else if (response.ok) {
+                    log(LogLevel.Info, 'Outbox: delivered queued status update');
+                } else if (isRetryableStatus(response.status)) {
+                    retry = true;
+                    retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+                } else {
+                    log(LogLevel.Warn, `Outbox: dropping queued status, API returned ${response.status}`);
+                }
+            } catch (error) {
+                retry = isRetryableError(error);
+                if (!retry) {
+                    log(LogLevel.Warn, `Outbox: dropping queued status: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+
+            // The entry may have been replaced by a newer one while we were sending
+            const current = entries.find((candidate) => candidate.key === entry.key);
+            if (current !== entry) continue;
+
+            if (retry) {
+                entry.attempts++;
+                entry.nextAttemptAt = Date.now() + (retryAfterMs ?? backoffDelay(entry.attempts, OUTBOX_BASE_DELAY_MS, OUTBOX_MAX_DELAY_MS));
+                log(LogLevel.Debug, `Outbox: retry ${entry.attempts} failed, next attempt at ${new Date(entry.nextAttemptAt).toISOString()}`);
+            } else if (entry.payload === sent) {
+                entries = entries.filter((candidate) => candidate !== entry);
+            }
+        }
+    } finally {
+        flushing = false;
+        persist();
+        schedule();
+    }
+}
+
+export function disposeOutbox() {
+    if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+    }
+
+    sender = undefined;
+}
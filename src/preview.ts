@@ -0,0 +1,108 @@
+import dayjs from 'dayjs';
+import type { Disposable } from 'vscode';
+import { EventEmitter, Uri, ViewColumn, window, workspace } from 'vscode';
+import { PREVIEW_SCHEME } from './constants';
+import { log, LogLevel, maskSecrets } from './logger';
+import { getConfig } from './util';
+
+// What the status would look like right now, rendered by the preview command
+export interface StatusPreview {
+    details: string | undefined;
+    state: string | undefined;
+    payload: object;
+    warnings: string[];
+    renderedAt: number;
+}
+
+// A payload that went through the whole pipeline, but was not sent because of the dry run
+export interface DryRunRecord {
+    sink: string;
+    url: string;
+    payload: unknown;
+    sentAt: number;
+}
+
+const PREVIEW_URI = Uri.from({ scheme: PREVIEW_SCHEME, path: 'Status Preview.md' });
+
+const changes = new EventEmitter<Uri>();
+const dryRuns = new Map<string, DryRunRecord>(); // Sink name -> last payload
+let latestPreview: StatusPreview | undefined;
+
+export function isDryRun() {
+    return getConfig().dryRun;
+}
+
+export function recordDryRun(sink: string, url: string, payload: unknown) {
+    log(LogLevel.Info, `Dry run, not sending to ${sink} (${url}): ${JSON.stringify(payload)}`);
+    dryRuns.set(sink, { sink, url, payload, sentAt: Date.now() });
+    changes.fire(PREVIEW_URI);
+}
+
+export function getDryRuns() {
+    return [...dryRuns.values()];
+}
+
+function codeBlock(value: unknown) {
+    const text = typeof value === 'string' ? value : JSON.stringify(value, null, 4);
+    return ['```json', maskSecrets(text), '```'].join('\n');
+}
+
+function renderPreview(preview: StatusPreview) {
+    return [
+        `## Current Status (${dayjs(preview.renderedAt).format('HH:mm:ss')})`,
+        '',
+        `- Details: ${preview.details || '(empty)'}`,
+        `- State: ${preview.state || '(empty)'}`,
+        '',
+        '### Template Warnings',
+        '',
+        ...(preview.warnings.length ? preview.warnings.map((warning) => `- ${warning}`) : ['None']),
+        '',
+        '### Payload',
+        '',
+        codeBlock(preview.payload),
+        '',
+    ];
+}
+
+function renderDryRuns() {
+    if (!isDryRun() && !dryRuns.size) {
+        return ['## Dry Run', '', 'Turn on `vscodeStatus.dryRun` to see every payload here instead of sending it.', ''];
+    }
+
+    return [
+        '## Dry Run',
+        '',
+        isDryRun() ? 'Payloads are shown here instead of being sent.' : 'Dry run is off, these are the last payloads it held back.',
+        '',
+        ...getDryRuns().flatMap((record) => [
+            `### ${record.sink} (${dayjs(record.sentAt).format('HH:mm:ss')})`,
+            '',
+            `\`${maskSecrets(record.url)}\``,
+            '',
+            codeBlock(record.payload),
+            '',
+        ]),
+    ];
+}
+
+function render() {
+    return ['# VSCode Status Preview', '', ...(latestPreview ? renderPreview(latestPreview) : []), ...renderDryRuns()].join('\n');
+}
+
+export async function showStatusPreview(preview: StatusPreview) {
+    latestPreview = preview;
+    changes.fire(PREVIEW_URI);
+
+    const document = await workspace.openTextDocument(PREVIEW_URI);
+    // Keeps the focus where it was, otherwise the preview itself would become what is shared
+    await window.showTextDocument(document, { preview: true, viewColumn: ViewColumn.Beside, preserveFocus: true });
+}
+
+// The preview document updates itself while open, dry run payloads show up as they are produced
+export function initPreview(): Disposable[] {
+    return [
+        workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, { onDidChange: changes.event, provideTextDocumentContent: render }),
+        changes,
+    ];
+}
@@ -0,0 +1,93 @@
+import { createHash } from 'node:crypto';
+import { log, LogLevel } from './logger';
+import { getConfig, globToRegExp, toPosixPath } from './util';
+
+export type RedactedField = 'fileName' | 'workspace' | 'gitRepo' | 'gitBranch';
+
+export interface RedactionRule {
+    glob?: string; // Matched against the active file path
+    workspace?: string; // Matched against the workspace folder path
+    repo?: string; // Matched against the git remote URL
+    fields?: RedactedField[];
+    action?: 'hide' | 'replace' | 'hash';
+    placeholder?: string;
+}
+
+export interface RedactionTarget {
+    filePath?: string | undefined;
+    workspacePaths?: string[] | undefined; // The folder owning the file, or every folder for files outside them
+    repoRemote?: string | undefined;
+}
+
+// Returns the redacted value, or undefined when the field should be hidden
+export type Redactor = (field: RedactedField, value: string) => string | undefined;
+
+const ALL_FIELDS: RedactedField[] = ['fileName', 'workspace', 'gitRepo', 'gitBranch'];
+
+const DEFAULT_PLACEHOLDERS: Record<RedactedField, string> = {
+    fileName: 'a private file',
+    workspace: 'a private workspace',
+    gitRepo: 'a private repo',
+    gitBranch: 'a private branch',
+};
+
+// Fields kept when private mode is enabled
+const PRIVATE_MODE_FIELDS = ['appName', 'isDebugging', 'isIdling', 'isAway', 'idleDuration', 'timestamp'] as const;
+
+function hash(value: string) {
+    return createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
+
+function matches(pattern: string | undefined, value: string | undefined) {
+    if (pattern === undefined) return true;
+    if (!value) return false;
+
+    try {
+        return globToRegExp(pattern).test(toPosixPath(value));
+    } catch (error) {
+        log(LogLevel.Warn, `Invalid redaction pattern "${pattern}": ${error as string}`);
+        return false;
+    }
+}
+
+function findRule(field: RedactedField, target: RedactionTarget) {
+    return getConfig().redactionRules.find(
+        (rule) =>
+            (rule.fields ?? ALL_FIELDS).includes(field) &&
+            matches(rule.glob, target.filePath) &&
+            (rule.workspace === undefined || !!target.workspacePaths?.some((path) => matches(rule.workspace, path))) &&
+            matches(rule.repo, target.repoRemote),
+    );
+}
+
+export function isPrivateMode() {
+    return getConfig().privateMode;
+}
+
+export function getRedactor(target: RedactionTarget): Redactor {
+    return (field, value) => {
+        const rule = findRule(field, target);
+        if (!rule) return value;
+
+        switch (rule.action ?? 'replace') {
+            case 'hide':
+                return undefined;
+            case 'hash':
+                return hash(value);
+            default:
+                return rule.placeholder ?? DEFAULT_PLACEHOLDERS[field];
+        }
+    };
+}
+
+export function applyPrivateMode<T extends object>(payload: T): Partial<T> {
+    const result: Partial<T> = {};
+
+    for (const key of PRIVATE_MODE_FIELDS) {
+        if (key in payload) {
+            (result as Record<string, unknown>)[key] = (payload as Record<string, unknown>)[key];
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,149 @@
+import dayjs from 'dayjs';
+import type { Memento } from 'vscode';
+import { log, LogLevel } from './logger';
+import { getConfig } from './util';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface ScheduleWindow {
+    days?: Weekday[];
+    start: string; // HH:mm
+    end: string; // HH:mm, before start for windows that run past midnight
+}
+
+export type ScheduleEvent = 'snooze' | 'schedule' | 'tick';
+
+interface StoredSnooze {
+    until: number | null; // null snoozes until resumed
+}
+
+const SNOOZE_STORAGE_KEY = 'vscodeStatus.snooze';
+const SCHEDULE_CHECK_INTERVAL_MS = 15_000; // 15 seconds, also how often the countdown updates
+
+// Indexed like Date#getDay
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+let memento: Memento | undefined;
+let timer: NodeJS.Timeout | undefined;
+let onScheduleEvent: ((event: ScheduleEvent) => void) | undefined;
+let wasSnoozed = false;
+let wasWithinSchedule = true;
+const reportedInvalid = new Set<string>();
+
+function readSnooze() {
+    return memento?.get<StoredSnooze>(SNOOZE_STORAGE_KEY);
+}
+
+export function snoozedUntil() {
+    return readSnooze()?.until;
+}
+
+// Other windows share the snooze through global state, so it is read on every check
+export function isSnoozed(now = Date.now()) {
+    const snooze = readSnooze();
+    if (!snooze) return false;
+
+    return snooze.until === null || snooze.until > now;
+}
+
+export async function snooze(until: number | null) {
+    await memento?.update(SNOOZE_STORAGE_KEY, { until } satisfies StoredSnooze);
+    log(LogLevel.Info, until === null ? 'Paused sharing until resumed' : `Paused sharing until ${dayjs(until).format('DD/MM/YYYY HH:mm')}`);
+    check();
+}
+
+export async function resume() {
+    await memento?.update(SNOOZE_STORAGE_KEY, undefined);
+    check();
+}
+
+// Minutes since midnight, or undefined for anything that isn't HH:mm
+function parseTime(time: string) {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+    if (!match) return undefined;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return undefined;
+
+    return hours * 60 + minutes;
+}
+
+function reportInvalid(entry: ScheduleWindow) {
+    const key = JSON.stringify(entry);
+    if (reportedInvalid.has(key)) return;
+
+    reportedInvalid.add(key);
+    log(LogLevel.Warn, `Ignoring invalid schedule entry ${key}, times must be HH:mm`);
+}
+
+function includesDay(entry: ScheduleWindow, day: number) {
+    return !entry.days?.length || entry.days.includes(WEEKDAYS[day] as Weekday);
+}
+
+function isWithinWindow(entry: ScheduleWindow, now: Date) {
+    const start = parseTime(entry.start);
+    const end = parseTime(entry.end);
+    if (start === undefined || end === undefined) {
+        reportInvalid(entry);
+        return false;
+    }
+
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const today = now.getDay();
+
+    if (start <= end) {
+        return includesDay(entry, today) && minutes >= start && minutes < end;
+    }
+
+    // Overnight windows belong to the day they start on
+    const yesterday = (today + 6) % 7;
+    return (includesDay(entry, today) && minutes >= start) || (includesDay(entry, yesterday) && minutes < end);
+}
+
+// Without a schedule, sharing is allowed all the time
+export function isWithinSchedule(now = new Date()) {
+    const { schedule } = getConfig();
+    if (!schedule.length) return true;
+
+    return schedule.some((entry) => isWithinWindow(entry, now));
+}
+
+function check() {
+    const snoozed = isSnoozed();
+    const withinSchedule = isWithinSchedule();
+
+    if (snoozed !== wasSnoozed) {
+        wasSnoozed = snoozed;
+        if (!snoozed) log(LogLevel.Info, 'Resumed sharing');
+        onScheduleEvent?.('snooze');
+    }
+
+    if (withinSchedule !== wasWithinSchedule) {
+        wasWithinSchedule = withinSchedule;
+        log(LogLevel.Info, withinSchedule ? 'Entered sharing schedule' : 'Left sharing schedule');
+        onScheduleEvent?.('schedule');
+    }
+
+    onScheduleEvent?.('tick');
+}
+
+export function initSchedule(state: Memento, onEvent: (event: ScheduleEvent) => void) {
+    memento = state;
+    onScheduleEvent = onEvent;
+    wasSnoozed = isSnoozed();
+    wasWithinSchedule = isWithinSchedule();
+
+    // A snooze that ran out while VS Code was closed is cleaned up
+    const snoozeState = readSnooze();
+    if (snoozeState && !wasSnoozed) {
+        void memento.update(SNOOZE_STORAGE_KEY, undefined);
+    }
+
+    timer = setInterval(check, SCHEDULE_CHECK_INTERVAL_MS);
+}
+
+export function disposeSchedule() {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+}
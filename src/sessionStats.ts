@@ -0,0 +1,201 @@
+import dayjs from 'dayjs';
+import type { Disposable, Memento, TextDocumentChangeEvent } from 'vscode';
+import { TextDocumentChangeReason, window, workspace } from 'vscode';
+import { PREVIEW_SCHEME } from './constants';
+import { log, LogLevel } from './logger';
+import { formatShortDuration, getConfig } from './util';
+
+export interface SessionStats {
+    startedAt: number;
+    durationMs: number;
+    linesAdded: number;
+    linesRemoved: number;
+    charactersTyped: number;
+    filesTouched: number;
+    languages: Record<string, number>; // Active time in ms
+    workspaces: Record<string, number>; // Active time in ms
+}
+
+interface StoredStats {
+    day: string;
+    startedAt: number;
+    linesAdded: number;
+    linesRemoved: number;
+    charactersTyped: number;
+    filesTouched: string[];
+    languages: Record<string, number>;
+    workspaces: Record<string, number>;
+}
+
+interface Focus {
+    language: string | undefined;
+    workspace: string | undefined;
+    since: number;
+}
+
+const STATS_STORAGE_KEY = 'vscodeStatus.sessionStats';
+const STATS_MAX_GAP_MS = 900_000; // 15 minutes, like the journal, longer gaps are most likely breaks
+
+// Schemes of documents that change without the user typing
+const IGNORED_SCHEMES = new Set<string>(['output', 'debug', 'vscode-userdata', PREVIEW_SCHEME]);
+
+let memento: Memento | undefined;
+let stats: StoredStats = emptyStats();
+let touched = new Set<string>();
+let focus: Focus | undefined;
+
+function emptyStats(): StoredStats {
+    return {
+        day: dayjs().format('YYYY-MM-DD'),
+        startedAt: Date.now(),
+        linesAdded: 0,
+        linesRemoved: 0,
+        charactersTyped: 0,
+        filesTouched: [],
+        languages: {},
+        workspaces: {},
+    };
+}
+
+function isDaily() {
+    return getConfig().statsReset === 'daily';
+}
+
+export function resetSessionStats() {
+    stats = emptyStats();
+    touched = new Set();
+    focus = focus && { ...focus, since: Date.now() };
+    log(LogLevel.Debug, 'Reset session stats');
+}
+
+// Called when a new session starts, daily stats carry over until the day changes
+export function startStatsSession() {
+    if (!isDaily()) resetSessionStats();
+}
+
+function rollOverDay() {
+    if (isDaily() && stats.day !== dayjs().format('YYYY-MM-DD')) {
+        resetSessionStats();
+    }
+}
+
+function save() {
+    if (!memento || !isDaily()) return;
+
+    void memento.update(STATS_STORAGE_KEY, { ...stats, filesTouched: [...touched] } satisfies StoredStats);
+}
+
+function addTime(totals: Record<string, number>, key: string | undefined, ms: number) {
+    if (key === undefined) return;
+    totals[key] = (totals[key] ?? 0) + ms;
+}
+
+function settleFocus(now: number) {
+    if (!focus) return;
+
+    const elapsed = Math.min(now - focus.since, STATS_MAX_GAP_MS);
+    addTime(stats.languages, focus.language, elapsed);
+    addTime(stats.workspaces, focus.workspace, elapsed);
+    focus.since = now;
+}
+
+// Time is attributed to whatever was focused since the previous sample, idle periods pass undefined
+export function sampleFocus(next: { language: string | undefined; workspace: string | undefined } | undefined) {
+    rollOverDay();
+
+    const now = Date.now();
+    settleFocus(now);
+    focus = next && { ...next, since: now };
+    save();
+}
+
+function onTextChange(event: TextDocumentChangeEvent) {
+    const { document, contentChanges, reason } = event;
+
+    // Undo and redo don't count as typing, neither do documents that aren't open in an editor
+    if (IGNORED_SCHEMES.has(document.uri.scheme) || reason === TextDocumentChangeReason.Undo || reason === TextDocumentChangeReason.Redo) return;
+    if (!contentChanges.length || !window.visibleTextEditors.some((editor) => editor.document === document)) return;
+
+    rollOverDay();
+
+    for (const change of contentChanges) {
+        stats.linesRemoved += change.range.end.line - change.range.start.line;
+        stats.linesAdded += change.text.split('\n').length - 1;
+        stats.charactersTyped += change.text.length;
+    }
+
+    touched.add(document.uri.toString());
+}
+
+export function getSessionStats(): SessionStats {
+    rollOverDay();
+
+    const now = Date.now();
+    const languages = { ...stats.languages };
+    const workspaces = { ...stats.workspaces };
+
+    // Include the time since the last sample without settling it
+    if (focus) {
+        const elapsed = Math.min(now - focus.since, STATS_MAX_GAP_MS);
+        addTime(languages, focus.language, elapsed);
+        addTime(workspaces, focus.workspace, elapsed);
+    }
+
+    return {
+        startedAt: stats.startedAt,
+        durationMs: now - stats.startedAt,
+        linesAdded: stats.linesAdded,
+        linesRemoved: stats.linesRemoved,
+        charactersTyped: stats.charactersTyped,
+        filesTouched: touched.size,
+        languages,
+        workspaces,
+    };
+}
+
+function table(title: string, totals: Record<string, number>) {
+    const rows = Object.entries(totals)
+        .sort(([, a], [, b]) => b - a)
+        .map(([name, duration]) => `| ${name.replace(/\|/g, '\\|')} | ${formatShortDuration(duration)} |`);
+
+    return [`## ${title}`, '', '| Name | Time |', '| --- | --- |', ...(rows.length ? rows : ['| - | - |']), ''].join('\n');
+}
+
+export function buildStatsReport(current: SessionStats) {
+    const title = isDaily() ? `Today (since ${dayjs(current.startedAt).format('HH:mm')})` : `Session (since ${dayjs(current.startedAt).format('DD/MM/YYYY HH:mm')})`;
+
+    return [
+        '# VSCode Status Session Stats',
+        '',
+        `${title}, running for **${formatShortDuration(current.durationMs)}**.`,
+        '',
+        `- Lines added: ${current.linesAdded.toLocaleString()}`,
+        `- Lines removed: ${current.linesRemoved.toLocaleString()}`,
+        `- Characters typed: ${current.charactersTyped.toLocaleString()}`,
+        `- Files touched: ${current.filesTouched.toLocaleString()}`,
+        '',
+        table('Per language', current.languages),
+        table('Per workspace', current.workspaces),
+    ].join('\n');
+}
+
+export async function showSessionStats() {
+    const document = await workspace.openTextDocument({ content: buildStatsReport(getSessionStats()), language: 'markdown' });
+    await window.showTextDocument(document, { preview: true });
+}
+
+export function initSessionStats(state: Memento): Disposable[] {
+    memento = state;
+
+    // Daily stats survive reloads, as long as it is still the same day
+    const stored = state.get<StoredStats>(STATS_STORAGE_KEY);
+    if (isDaily() && stored?.day === dayjs().format('YYYY-MM-DD')) {
+        stats = stored;
+        touched = new Set(stored.filesTouched);
+    }
+
+    return [
+        workspace.onDidChangeTextDocument(onTextChange),
+        { dispose: () => sampleFocus(undefined) },
+    ];
+}
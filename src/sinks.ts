@@ -0,0 +1,167 @@
+import { registerSecret } from './logger';
+import { getAuthToken, getSinkSecret } from './tokenStore';
+import { getConfig } from './util';
+
+// The vscode-status-api configured through `apiUrl` and the token in secret storage
+export const PRIMARY_SINK_NAME = 'vscode-status-api';
+
+export interface SinkConfig {
+    name: string;
+    type?: 'api' | 'webhook';
+    url?: string;
+    authToken?: string;
+    enabled?: boolean;
+    redaction?: 'default' | 'private';
+    throttleSeconds?: number;
+    method?: string;
+    headers?: Record<string, string>;
+    bodyTemplate?: unknown;
+    hmacSecret?: string;
+    signatureHeader?: string;
+}
+
+export interface Sink {
+    name: string;
+    type: 'api' | 'webhook';
+    url: string;
+    token: string;
+    enabled: boolean;
+    redaction: 'default' | 'private';
+    intervalMs: number;
+    primary: boolean;
+    webhook?: WebhookOptions | undefined;
+}
+
+export interface WebhookOptions {
+    method: string;
+    headers: Record<string, string>;
+    bodyTemplate: unknown;
+    hmacSecret?: string | undefined;
+    signatureHeader: string;
+}
+
+export interface SinkHealth {
+    status: 'pending' | 'ok' | 'error' | 'dryRun'; // Dry runs don't send anything, so they don't count as a success
+    text: string;
+    tooltip: string;
+    retryable?: boolean;
+    lastSuccessAt?: number | undefined;
+    lastError?: string | undefined;
+}
+
+const health = new Map<string, SinkHealth>();
+
+function webhookUrlSecret(url: string | undefined) {
+    if (!url) return undefined;
+
+    try {
+        const { pathname, search, hash } = new URL(url);
+        return `${pathname}${search}${hash}`;
+    } catch {
+        return url;
+    }
+}
+
+function toSink(sinkConfig: SinkConfig, fallback?: Sink): Sink {
+    registerSecret(sinkConfig.authToken);
+    registerSecret(sinkConfig.hmacSecret);
+
+    const type = sinkConfig.name === PRIMARY_SINK_NAME ? 'api' : sinkConfig.type ?? 'api';
+
+    // Webhook URLs often carry the secret themselves (e.g. Slack's /services/... paths), so only their origin is logged
+    if (type === 'webhook') registerSecret(webhookUrlSecret(sinkConfig.url));
+
+    return {
+        name: sinkConfig.name,
+        type,
+        // Webhook URLs are used as-is, API URLs are a base that paths get appended to
+        url: type === 'webhook' ? sinkConfig.url ?? '' : (sinkConfig.url ?? fallback?.url ?? '').replace(/\/+$/, ''),
+        // Only the primary sink gets the vscode-status-api token, other sinks would leak it to a third party.
+        // Their own token is kept in secret storage, settings that still hold one are migrated there
+        token: getSinkSecret(sinkConfig.name, 'authToken') || sinkConfig.authToken || fallback?.token || '',
+        enabled: sinkConfig.enabled ?? fallback?.enabled ?? true,
+        redaction: sinkConfig.redaction ?? fallback?.redaction ?? 'default',
+        intervalMs: (sinkConfig.throttleSeconds ?? 0) * 1_000 || (fallback?.intervalMs ?? 0),
+        primary: sinkConfig.name === PRIMARY_SINK_NAME,
+        webhook:
+            type === 'webhook'
+                ? {
+                      method: (sinkConfig.method ?? 'POST').toUpperCase(),
+                      headers: sinkConfig.headers ?? {},
+                      bodyTemplate: sinkConfig.bodyTemplate,
+                      hmacSecret: getSinkSecret(sinkConfig.name, 'hmacSecret') || sinkConfig.hmacSecret,
+                      signatureHeader: sinkConfig.signatureHeader ?? 'X-Signature-256',
+                  }
+                : undefined,
+    };
+}
+
+// The primary sink is always first. A sink entry with its name overrides its settings instead of adding a new sink
+export function getSinks(): Sink[] {
+    const config = getConfig();
+    let primary = toSink({ name: PRIMARY_SINK_NAME, url: config.apiUrl, authToken: getAuthToken() });
+    const extra: Sink[] = [];
+
+    for (const sinkConfig of config.sinks) {
+        if (sinkConfig.name === PRIMARY_SINK_NAME) {
+            primary = toSink(sinkConfig, primary);
+        } else if (sinkConfig.name && sinkConfig.url) {
+            extra.push(toSink(sinkConfig));
+        }
+    }
+
+    return [primary, ...extra];
+}
+
+export function getEnabledSinks() {
+    return getSinks().filter((sink) => sink.enabled);
+}
+
+export function findSink(name: string) {
+    return getSinks().find((sink) => sink.name === name);
+}
+
+export function getSinkHealth(name: string) {
+    return health.get(name);
+}
+
+export function setSinkHealth(name: string, update: SinkHealth) {
+    const previous = health.get(name);
+    health.set(name, {
+        ...update,
+        lastSuccessAt: update.status === 'ok' ? Date.now() : previous?.lastSuccessAt,
+        lastError: update.status === 'error' ? update.lastError ?? update.tooltip : previous?.lastError,
+    });
+}
+
+export function clearSinkHealth() {
+    health.clear();
+}
+
+// A single sink shows its own state, several sinks only draw attention to the ones failing
+export function summarizeHealth(sinks: Sink[]): SinkHealth | undefined {
+    const known = sinks.map((sink) => [sink, health.get(sink.name)] as const).filter(([, sinkHealth]) => sinkHealth);
+    if (!known.length) return undefined;
+
+    if (sinks.length === 1) {
+        return known[0]?.[1];
+    }
+
+    const failing = known.filter(([, sinkHealth]) => sinkHealth?.status === 'error');
+    const tooltip = known.map(([sink, sinkHealth]) => `${sink.name}: ${sinkHealth?.tooltip}`).join('\n');
+
+    if (known.every(([, sinkHealth]) => sinkHealth?.status === 'dryRun')) {
+        return { status: 'dryRun', text: '$(eye) Dry Run', tooltip };
+    }
+
+    if (!failing.length) {
+        return { status: 'ok', text: `$(globe) Connected to ${sinks.length} APIs`, tooltip };
+    }
+
+    return {
+        status: 'error',
+        text: `$(warning) ${failing.length}/${sinks.length} APIs Failing`,
+        tooltip,
+        retryable: failing.some(([, sinkHealth]) => sinkHealth?.retryable),
+    };
+}
@@ -0,0 +1,167 @@
+import WebSocket from 'ws';
+import { log, LogLevel } from './logger';
+import { backoffDelay } from './util';
+
+export type SocketState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// Events pushed by the server over the socket
+export type ServerEvent =
+    | { type: 'ack' }
+    | { type: 'token-revoked'; reason?: string }
+    | { type: 'rate-limit'; intervalMs: number }
+    | { type: 'error'; status?: number; error: string };
+
+export interface SocketTransportOptions {
+    url: string;
+    getToken(): string;
+    onStateChange(state: SocketState): void;
+    onServerEvent(event: ServerEvent): void;
+}
+
+export interface SocketTransport {
+    readonly state: SocketState;
+    send(payload: Record<string, unknown>): boolean;
+    dispose(): void;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30_000; // 30 seconds
+const HEARTBEAT_TIMEOUT_MS = 10_000; // 10 seconds
+const RECONNECT_BASE_DELAY_MS = 1_000; // 1 second
+const RECONNECT_MAX_DELAY_MS = 60_000; // 1 minute
+
+// Turns the API base URL into the URL of its WebSocket endpoint
+export function toSocketUrl(apiBaseUrl: string) {
+    return `${apiBaseUrl.replace(/^http/, 'ws').replace(/\/+$/, '')}/ws`;
+}
+
+export function createSocketTransport(options: SocketTransportOptions): SocketTransport {
+    let socket: WebSocket | undefined;
+    let state: SocketState = 'closed';
+    let attempts = 0;
+    let disposed = false;
+    let rejected = false; // The server doesn't take WebSocket connections, retrying won't change that
+    let heartbeat: NodeJS.Timeout | undefined;
+    let heartbeatTimeout: NodeJS.Timeout | undefined;
+    let reconnectTimer: NodeJS.Timeout | undefined;
+
+    const setState = (next: SocketState) => {
+        if (state === next) return;
+        state = next;
+        options.onStateChange(next);
+    };
+
+    const stopHeartbeat = () => {
+        clearInterval(heartbeat);
+        clearTimeout(heartbeatTimeout);
+        heartbeat = undefined;
+        heartbeatTimeout = undefined;
+    };
+
+    const startHeartbeat = () => {
+        stopHeartbeat();
+        heartbeat = setInterval(() => {
+            if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+            heartbeatTimeout = setTimeout(() => {
+                log(LogLevel.Warn, 'WebSocket heartbeat timed out, reconnecting');
+                socket?.terminate();
+            }, HEARTBEAT_TIMEOUT_MS);
+            socket.ping();
+        }, HEARTBEAT_INTERVAL_MS);
+    };
+
+    const scheduleReconnect = () => {
+        if (disposed) return;
+
+        const delay = backoffDelay(attempts++, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS);
+        log(LogLevel.Info, `WebSocket reconnecting in ${delay}ms`);
+        setState('reconnecting');
+        reconnectTimer = setTimeout(open, delay);
+    };
+
+    const handleMessage = (data: WebSocket.RawData) => {
+        let event: ServerEvent;
+        try {
+            event = JSON.parse(data.toString()) as ServerEvent;
+        } catch {
+            log(LogLevel.Warn, 'Received malformed WebSocket message');
+            return;
+        }
+
+        log(LogLevel.Trace, `Received WebSocket event: ${event.type}`);
+        options.onServerEvent(event);
+    };
+
+    function open() {
+        if (disposed) return;
+
+        log(LogLevel.Info, `Opening WebSocket connection to ${options.url}`);
+        if (state !== 'reconnecting') {
+            setState('connecting');
+        }
+
+        const current = new WebSocket(options.url, {
+            headers: { Authorization: `Bearer ${options.getToken()}` },
+        });
+        socket = current;
+
+        current.on('open', () => {
+            attempts = 0;
+            setState('open');
+            startHeartbeat();
+        });
+        current.on('pong', () => clearTimeout(heartbeatTimeout));
+        current.on('message', handleMessage);
+        current.on('unexpected-response', (_request, response) => {
+            // The handshake was rejected, e.g. a 401 for an invalid token or a 404 from an API without WebSocket support.
+            // Updates keep going over HTTP meanwhile, so this doesn't count as an API error
+            const status = response.statusCode ?? 0;
+            if (status === 401) {
+                options.onServerEvent({ type: 'token-revoked', reason: 'Authentication failed' });
+            } else if (status >= 400 && status < 500) {
+                log(LogLevel.Warn, `WebSocket handshake failed with status ${status}, sending updates over HTTP only`);
+                rejected = true;
+            } else {
+                log(LogLevel.Warn, `WebSocket handshake failed with status ${status}`);
+            }
+            current.terminate();
+        });
+        current.on('error', (error) => {
+            log(LogLevel.Error, `WebSocket error: ${error.message}`);
+        });
+        current.on('close', (code) => {
+            stopHeartbeat();
+            if (socket !== current) return;
+
+            socket = undefined;
+            log(LogLevel.Info, `WebSocket closed with code ${code}`);
+            if (rejected) {
+                setState('closed');
+            } else {
+                scheduleReconnect();
+            }
+        });
+    }
+
+    open();
+
+    return {
+        get state() {
+            return state;
+        },
+        send(payload) {
+            if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+
+            socket.send(JSON.stringify({ type: 'status', payload }));
+            return true;
+        },
+        dispose() {
+            disposed = true;
+            clearTimeout(reconnectTimer);
+            stopHeartbeat();
+            socket?.close(1000);
+            socket = undefined;
+            setState('closed');
+        },
+    };
+}
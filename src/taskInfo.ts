@@ -0,0 +1,122 @@
+import type { Disposable, Task, TaskExecution } from 'vscode';
+import { ProcessExecution, ShellExecution, TaskGroup, tasks, window, workspace } from 'vscode';
+import { log, LogLevel } from './logger';
+
+export interface TaskInfo {
+    name: string;
+    source: string; // e.g. npm, shell or Workspace
+    isTest: boolean;
+    commandLine?: string | undefined;
+    startedAt: number;
+    exitCode?: number | undefined; // Only known once the task process ended
+}
+
+const running = new Map<TaskExecution, TaskInfo>();
+let lastFinished: TaskInfo | undefined;
+let lastTerminalCommandLine: string | undefined;
+
+// VS Code has no terminal focus event, so whichever was interacted with last has the focus
+let lastTerminalAt = 0;
+let lastEditorAt = 0;
+
+let onTaskChange: (() => void) | undefined;
+
+function commandLine(task: Task) {
+    const { execution } = task;
+
+    if (execution instanceof ShellExecution) {
+        if (execution.commandLine) return execution.commandLine;
+
+        const command = typeof execution.command === 'string' ? execution.command : execution.command?.value;
+        const args = (execution.args ?? []).map((arg) => (typeof arg === 'string' ? arg : arg.value));
+        return [command, ...args].filter(Boolean).join(' ');
+    }
+
+    if (execution instanceof ProcessExecution) {
+        return [execution.process, ...execution.args].join(' ');
+    }
+
+    return undefined;
+}
+
+function isTestTask(task: Task) {
+    return task.group?.id === TaskGroup.Test.id || /\btests?\b/i.test(task.name);
+}
+
+// Tests win over other tasks, otherwise the most recently started task is shown
+export function getRunningTask(): TaskInfo | undefined {
+    const all = [...running.values()].sort((a, b) => b.startedAt - a.startedAt);
+    return all.find((task) => task.isTest) ?? all[0];
+}
+
+export function getLastFinishedTask() {
+    return lastFinished;
+}
+
+export function isInTerminal() {
+    return lastTerminalAt > lastEditorAt;
+}
+
+export function getTerminalCommandLine() {
+    return lastTerminalCommandLine;
+}
+
+function focusTerminal() {
+    const wasInTerminal = isInTerminal();
+    lastTerminalAt = Date.now();
+    if (!wasInTerminal) onTaskChange?.();
+}
+
+function focusEditor() {
+    const wasInTerminal = isInTerminal();
+    lastEditorAt = Date.now();
+    if (wasInTerminal) onTaskChange?.();
+}
+
+export function initTaskTracking(onChange: () => void): Disposable[] {
+    onTaskChange = onChange;
+
+    return [
+        tasks.onDidStartTask(({ execution }) => {
+            const { task } = execution;
+            running.set(execution, {
+                name: task.name,
+                source: task.source,
+                isTest: isTestTask(task),
+                commandLine: commandLine(task),
+                startedAt: Date.now(),
+            });
+            log(LogLevel.Debug, `Task "${task.name}" started`);
+            onChange();
+        }),
+        // Has the exit code, unlike onDidEndTask which fires for every task
+        tasks.onDidEndTaskProcess(({ execution, exitCode }) => {
+            const info = running.get(execution);
+            if (!info) return;
+
+            lastFinished = { ...info, exitCode };
+            log(LogLevel.Debug, `Task "${info.name}" exited with code ${exitCode}`);
+        }),
+        tasks.onDidEndTask(({ execution }) => {
+            const info = running.get(execution);
+            if (!info) return;
+
+            running.delete(execution);
+            if (lastFinished?.startedAt !== info.startedAt) lastFinished = info;
+            onChange();
+        }),
+        window.onDidStartTerminalShellExecution(({ execution }) => {
+            lastTerminalCommandLine = execution.commandLine.value;
+            focusTerminal();
+        }),
+        // Closing the last terminal moves focus back to the editor
+        window.onDidChangeActiveTerminal((terminal) => (terminal ? focusTerminal() : focusEditor())),
+        window.onDidChangeTerminalState(focusTerminal),
+        window.onDidChangeActiveTextEditor(focusEditor),
+        window.onDidChangeTextEditorSelection(focusEditor),
+        window.onDidChangeActiveNotebookEditor(focusEditor),
+        window.onDidChangeNotebookEditorSelection(focusEditor),
+        // Only edits in the active editor count, files also change through terminal commands
+        workspace.onDidChangeTextDocument((event) => event.document === window.activeTextEditor?.document && focusEditor()),
+    ];
+}
@@ -0,0 +1,86 @@
+import { basename } from 'node:path';
+import { EMPTY, FAKE_EMPTY } from './constants';
+
+// Nothing in here depends on vscode, so scripts/check-templates.mjs can render the default templates outside of it
+
+// Values are keyed by their placeholder (e.g. `{file_name}`), undefined means known but empty
+export type TemplateValues = Partial<Record<string, string | undefined>>;
+
+export interface RenderedTemplate {
+    text: string;
+    warnings: string[];
+}
+
+type Filter = (value: string, arg: number | undefined) => string;
+
+const FILTERS: Record<string, Filter> = {
+    upper: (value) => value.toLocaleUpperCase(),
+    lower: (value) => value.toLocaleLowerCase(),
+    basename: (value) => basename(value),
+    truncate: (value, arg) => (arg === undefined || value.length <= arg ? value : `${value.slice(0, Math.max(0, arg - 1))}…`),
+};
+
+// {#key}...{/key} is only kept when key has a value, {^key}...{/key} only when it doesn't
+const SECTION = /\{([#^])([A-Za-z_]+)\}([\s\S]*?)\{\/\2\}/g;
+
+// {key}, {key:filter:filter(arg)} and {key|default}
+const PLACEHOLDER = /\{([A-Za-z_]+)((?::[a-z]+(?:\(\d+\))?)*)(?:\|([^{}]*))?\}/g;
+
+const isEmpty = (value: string | undefined) => value === undefined || value === EMPTY || value === FAKE_EMPTY;
+
+export function templateKeys(template: string) {
+    const keys = new Set<string>();
+    for (const match of template.matchAll(SECTION)) keys.add(`{${match[2]}}`);
+    for (const match of template.matchAll(PLACEHOLDER)) keys.add(`{${match[1]}}`);
+    return keys;
+}
+
+function applyFilters(value: string, filters: string, warnings: string[]) {
+    let result = value;
+
+    for (const [, name, arg] of filters.matchAll(/:([a-z]+)(?:\((\d+)\))?/g)) {
+        const filter = FILTERS[name as string];
+        if (!filter) {
+            warnings.push(`Unknown filter "${name}"`);
+            continue;
+        }
+
+        result = filter(result, arg === undefined ? undefined : Number(arg));
+    }
+
+    return result;
+}
+
+export function renderTemplate(template: string, values: TemplateValues): RenderedTemplate {
+    const warnings: string[] = [];
+    const known = (key: string) => {
+        if (key in values) return true;
+        warnings.push(`Unknown placeholder "${key}"`);
+        return false;
+    };
+
+    let text = template;
+
+    // Sections can be nested, so keep expanding until nothing changes
+    let previous: string | undefined;
+    while (previous !== text) {
+        previous = text;
+        text = text.replace(SECTION, (_match, kind: string, name: string, body: string) => {
+            const key = `{${name}}`;
+            const present = known(key) && !isEmpty(values[key]);
+            return (kind === '#') === present ? body : EMPTY;
+        });
+    }
+
+    text = text.replace(PLACEHOLDER, (_match, name: string, filters: string, fallback: string | undefined) => {
+        const key = `{${name}}`;
+        if (!known(key)) return EMPTY;
+
+        const value = values[key];
+        if (isEmpty(value)) return fallback ?? value ?? EMPTY;
+
+        return applyFilters(value as string, filters, warnings);
+    });
+
+    return { text, warnings: [...new Set(warnings)] };
+}
@@ -0,0 +1,164 @@
+import type { ExtensionContext, SecretStorage } from 'vscode';
+import { ConfigurationTarget, workspace } from 'vscode';
+import { CONFIG_KEYS } from './constants';
+import { log, LogLevel, registerSecret } from './logger';
+import type { SinkConfig } from './sinks';
+import { getConfig } from './util';
+
+const TOKEN_SECRET_KEY = 'vscodeStatus.authToken';
+
+let secrets: SecretStorage | undefined;
+
+// Secret storage is async, but the token is needed synchronously all over the place
+let cachedToken = '';
+
+export type SinkSecretKind = 'authToken' | 'hmacSecret';
+
+const SINK_SECRET_KINDS: SinkSecretKind[] = ['authToken', 'hmacSecret'];
+
+// Secrets of sinks, keyed by secret key. Settings only hold the sink name that refers to them
+const cachedSinkSecrets = new Map<string, string>();
+
+function sinkSecretKey(sinkName: string, kind: SinkSecretKind) {
+    return `vscodeStatus.sinks.${sinkName}.${kind}`;
+}
+
+export function getAuthToken() {
+    return cachedToken;
+}
+
+export async function setAuthToken(token: string) {
+    if (!secrets) {
+        throw new Error('Token store has not been initialized');
+    }
+
+    await secrets.store(TOKEN_SECRET_KEY, token);
+    cachedToken = token;
+    registerSecret(token);
+}
+
+export function getSinkSecret(sinkName: string, kind: SinkSecretKind) {
+    return cachedSinkSecrets.get(sinkSecretKey(sinkName, kind)) ?? '';
+}
+
+// An empty value removes the secret
+export async function setSinkSecret(sinkName: string, kind: SinkSecretKind, value: string) {
+    if (!secrets) {
+        throw new Error('Token store has not been initialized');
+    }
+
+    const key = sinkSecretKey(sinkName, kind);
+    if (value) {
+        await secrets.store(key, value);
+        cachedSinkSecrets.set(key, value);
+        registerSecret(value);
+    } else {
+        await secrets.delete(key);
+        cachedSinkSecrets.delete(key);
+    }
+}
+
+async function loadSinkSecrets() {
+    for (const { name } of getConfig().sinks) {
+        for (const kind of SINK_SECRET_KINDS) {
+            const key = sinkSecretKey(name, kind);
+            const value = await secrets?.get(key);
+            if (value) {
+                cachedSinkSecrets.set(key, value);
+                registerSecret(value);
+            }
+        }
+    }
+}
+
+// Sink tokens and HMAC secrets used to live in the sink settings, like the auth token they move to secret storage
+async function migrateSinkSecretsFromSettings() {
+    const config = getConfig();
+    const inspected = config.inspect<SinkConfig[]>(CONFIG_KEYS.Sinks);
+    const targets: [ConfigurationTarget, SinkConfig[] | undefined][] = [
+        [ConfigurationTarget.Global, inspected?.globalValue],
+        [ConfigurationTarget.Workspace, inspected?.workspaceValue],
+        [ConfigurationTarget.WorkspaceFolder, inspected?.workspaceFolderValue],
+    ];
+
+    for (const [target, sinks] of targets) {
+        if (!sinks?.some((sink) => sink.authToken || sink.hmacSecret)) continue;
+
+        for (const sink of sinks) {
+            for (const kind of SINK_SECRET_KINDS) {
+                const value = sink[kind];
+                if (!value) continue;
+
+                registerSecret(value);
+                if (!getSinkSecret(sink.name, kind)) {
+                    await setSinkSecret(sink.name, kind, value);
+                    log(LogLevel.Info, `Moved ${kind} of sink "${sink.name}" from settings to secret storage`);
+                }
+            }
+        }
+
+        try {
+            await config.update(CONFIG_KEYS.Sinks, sinks.map(({ authToken, hmacSecret, ...sink }) => sink), target);
+        } catch (error) {
+            log(LogLevel.Warn, `Failed to remove sink secrets from settings: ${error as string}`);
+        }
+    }
+}
+
+// Moves a token out of the (synced, often committed) user settings into secret storage, once
+async function migrateTokenFromSettings() {
+    const config = getConfig();
+    const inspected = config.inspect<string>(CONFIG_KEYS.AuthToken);
+    const legacyToken = inspected?.globalValue || inspected?.workspaceValue || inspected?.workspaceFolderValue;
+    if (!legacyToken) return;
+
+    registerSecret(legacyToken);
+
+    if (!cachedToken) {
+        await setAuthToken(legacyToken);
+        log(LogLevel.Info, 'Moved authentication token from settings to secret storage');
+    }
+
+    for (const target of [ConfigurationTarget.Global, ConfigurationTarget.Workspace, ConfigurationTarget.WorkspaceFolder]) {
+        try {
+            await config.update(CONFIG_KEYS.AuthToken, undefined, target);
+        } catch {
+            // Not every target exists, e.g. without a workspace open
+        }
+    }
+}
+
+export async function initTokenStore(context: ExtensionContext) {
+    secrets = context.secrets;
+    cachedToken = (await secrets.get(TOKEN_SECRET_KEY)) ?? '';
+    registerSecret(cachedToken);
+
+    await migrateTokenFromSettings();
+    await loadSinkSecrets();
+    await migrateSinkSecretsFromSettings();
+
+    // Another window may replace the token
+    context.subscriptions.push(
+        secrets.onDidChange(async (event) => {
+            if (event.key === TOKEN_SECRET_KEY) {
+                cachedToken = (await secrets?.get(TOKEN_SECRET_KEY)) ?? '';
+                registerSecret(cachedToken);
+            } else if (event.key.startsWith('vscodeStatus.sinks.')) {
+                const value = (await secrets?.get(event.key)) ?? '';
+                if (value) {
+                    cachedSinkSecrets.set(event.key, value);
+                    registerSecret(value);
+                } else {
+                    cachedSinkSecrets.delete(event.key);
+                }
+            }
+        }),
+        // New sinks may refer to secrets stored before, or still carry them in their settings
+        workspace.onDidChangeConfiguration(async (event) => {
+            if (!event.affectsConfiguration('vscodeStatus.sinks')) return;
+
+            await loadSinkSecrets();
+            await migrateSinkSecretsFromSettings();
+        }),
+    );
+}
@@ -2,20 +2,56 @@ import { basename } from 'node:path';
 import type { TextDocument, WorkspaceConfiguration } from 'vscode';
 import { workspace, extensions } from 'vscode';
 import type { API, GitExtension } from './@types/git';
+import type { ExcludeRule } from './exclusion';
 import { log, LogLevel } from './logger';
+import type { LogSetting } from './logger';
+import type { RedactionRule } from './redaction';
+import type { ScheduleWindow } from './schedule';
+import type { SinkConfig } from './sinks';
 
 let git: API | null | undefined;
 
 type WorkspaceExtensionConfiguration = WorkspaceConfiguration & {
     apiUrl: string;
+    awayTimeout: number;
     authToken: string;
     userId: string;
     detailsDebugging: string;
     detailsEditing: string;
     detailsIdling: string;
+    detailsTask: string;
+    detailsTerminal: string;
+    detailsTesting: string;
+    dryRun: boolean;
     enabled: boolean;
+    excludeRules: ExcludeRule[];
+    heartbeatInterval: number;
     idleTimeout: number;
+    journalEnabled: boolean;
+    localServerEnabled: boolean;
+    localServerPort: number;
+    localServerToken: string;
+    logLevel: LogSetting;
+    logToFile: boolean;
+    multiWindowMode: 'leader' | 'summary' | 'off';
+    privateMode: boolean;
+    redactionRules: RedactionRule[];
+    schedule: ScheduleWindow[];
+    shareCommandLines: boolean;
+    shareGitAheadBehind: boolean;
+    shareGitDirtyCount: boolean;
+    shareGitLastCommit: boolean;
+    shareGitRemoteUrl: boolean;
+    shareSessionStats: boolean;
+    stateDebugging: string;
+    stateEditing: string;
+    stateIdling: string;
+    stateLanguageOverrides: Partial<Record<string, string>>;
+    statsReset: 'session' | 'daily';
+    sinks: SinkConfig[];
     suppressNotifications: boolean;
+    transport: 'http' | 'websocket';
+    updateInterval: number;
     workspaceExcludePatterns: string[];
 };
 
@@ -47,6 +83,62 @@ export const toUpper = (str: string) => str.toLocaleUpperCase();
 
 export const toTitle = (str: string) => toLower(str).replace(/^\w/, (char) => toUpper(char));
 
+function globSource(glob: string): string {
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i] as string;
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                i++;
+                if (glob[i + 1] === '/') {
+                    i++;
+                    source += '(?:.*/)?';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{' && glob.indexOf('}', i) !== -1) {
+            const end = glob.indexOf('}', i);
+            source += `(?:${glob.slice(i + 1, end).split(',').map(globSource).join('|')})`;
+            i = end;
+        } else {
+            source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+        }
+    }
+
+    return source;
+}
+
+// Converts a glob (`**`, `*`, `?` and `{a,b}`) into a case-insensitive regex matching the whole string
+export function globToRegExp(glob: string): RegExp {
+    return new RegExp(`^${globSource(glob)}$`, 'i');
+}
+
+// Exponential backoff with full jitter
+export function backoffDelay(attempts: number, baseMs: number, maxMs: number) {
+    const ceiling = Math.min(maxMs, baseMs * 2 ** attempts);
+    return Math.round(Math.random() * ceiling);
+}
+
+// Compact durations for the status bar and templates, e.g. `<1m`, `45m` or `1h 5m`
+export function formatShortDuration(ms: number) {
+    const minutes = Math.floor(ms / 60_000);
+    if (minutes < 1) return '<1m';
+    if (minutes < 60) return `${minutes}m`;
+
+    const hours = Math.floor(minutes / 60);
+    return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
+// Paths are compared with forward slashes so globs work the same on every platform
+export const toPosixPath = (path: string) => path.replace(/\\/g, '/');
+
 export async function getGit() {
     if (git || git === null) {
         return git;
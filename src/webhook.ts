@@ -0,0 +1,63 @@
+import { FAKE_EMPTY, REPLACE_KEYS } from './constants';
+import { log, LogLevel } from './logger';
+import { renderTemplate } from './template';
+import type { TemplateValues } from './template';
+
+// Placeholders only available in webhook bodies, on top of the ones used by the details strings
+const enum WEBHOOK_KEYS {
+    Details = '{details}',
+    IsDebugging = '{is_debugging}',
+    IsIdling = '{is_idling}',
+    SessionId = '{session_id}',
+    State = '{state}',
+    Timestamp = '{timestamp}',
+    UserId = '{user_id}',
+}
+
+const PRIVATE_KEYS = [REPLACE_KEYS.AppName, REPLACE_KEYS.Empty, WEBHOOK_KEYS.IsDebugging, WEBHOOK_KEYS.IsIdling, WEBHOOK_KEYS.Timestamp] as string[];
+
+const reportedWarnings = new Set<string>();
+
+export function webhookValues(templateValues: TemplateValues, payload: Record<string, any>, isPrivate: boolean): TemplateValues {
+    const values: TemplateValues = {
+        ...templateValues,
+        [WEBHOOK_KEYS.Details]: payload.details,
+        [WEBHOOK_KEYS.State]: payload.state,
+        [WEBHOOK_KEYS.UserId]: payload.userId,
+        [WEBHOOK_KEYS.SessionId]: payload.sessionId,
+        [WEBHOOK_KEYS.Timestamp]: payload.timestamp?.toString(),
+        [WEBHOOK_KEYS.IsIdling]: String(!!payload.isIdling),
+        [WEBHOOK_KEYS.IsDebugging]: String(!!payload.isDebugging),
+    };
+
+    if (!isPrivate) return values;
+
+    // Keep every key known so templates don't warn, but only share what private mode allows
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, PRIVATE_KEYS.includes(key) ? value : undefined]));
+}
+
+// Renders every string in the template, so the result stays valid JSON whatever the values contain
+export function renderWebhookBody(template: unknown, values: TemplateValues): unknown {
+    if (typeof template === 'string') {
+        const { text, warnings } = renderTemplate(template, values);
+        for (const warning of warnings) {
+            if (reportedWarnings.has(warning)) continue;
+            reportedWarnings.add(warning);
+            log(LogLevel.Warn, `Webhook body template: ${warning}`);
+        }
+
+        return text.split(FAKE_EMPTY).join('');
+    }
+
+    if (Array.isArray(template)) {
+        return template.map((item) => renderWebhookBody(item, values));
+    }
+
+    if (template && typeof template === 'object') {
+        return Object.fromEntries(
+            Object.entries(template).map(([key, value]) => [key, renderWebhookBody(value, values)]),
+        );
+    }
+
+    return template;
+}
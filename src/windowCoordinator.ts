@@ -0,0 +1,131 @@
+import { mkdir, readdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ExtensionContext } from 'vscode';
+import { window } from 'vscode';
+import { log, LogLevel } from './logger';
+import { generateGuid, getConfig } from './util';
+
+interface WindowHeartbeat {
+    windowId: string;
+    focused: boolean;
+    lastActiveAt: number;
+    heartbeatAt: number;
+}
+
+const WINDOWS_DIR_NAME = 'windows';
+const WINDOW_HEARTBEAT_INTERVAL_MS = 5_000; // 5 seconds
+const WINDOW_STALE_MS = 15_000; // 15 seconds, windows that stopped writing heartbeats are gone
+
+const windowId = generateGuid();
+
+let windowsDir: string | undefined;
+let focused = window.state.focused;
+let lastActiveAt = focused ? Date.now() : 0;
+let leader = true;
+let liveWindows = 1;
+let timer: NodeJS.Timeout | undefined;
+let onLeadershipChange: ((isLeader: boolean) => void) | undefined;
+
+export function isCoordinationEnabled() {
+    return getConfig().multiWindowMode !== 'off';
+}
+
+// Whether this window is the one that should report status
+export function isLeader() {
+    return !isCoordinationEnabled() || leader;
+}
+
+// Windows share the journal file. Without coordination every window is a leader, so the focused one keeps it
+export function isJournalWindow() {
+    return isCoordinationEnabled() ? leader : focused;
+}
+
+export function windowCount() {
+    return liveWindows;
+}
+
+async function writeHeartbeat() {
+    if (!windowsDir) return;
+
+    const heartbeat: WindowHeartbeat = { windowId, focused, lastActiveAt, heartbeatAt: Date.now() };
+    await mkdir(windowsDir, { recursive: true });
+    await writeFile(join(windowsDir, `${windowId}.json`), JSON.stringify(heartbeat), 'utf8');
+}
+
+async function readHeartbeats() {
+    if (!windowsDir) return [];
+
+    const heartbeats: WindowHeartbeat[] = [];
+    for (const file of await readdir(windowsDir)) {
+        const path = join(windowsDir, file);
+        try {
+            const heartbeat = JSON.parse(await readFile(path, 'utf8')) as WindowHeartbeat;
+            if (Date.now() - heartbeat.heartbeatAt > WINDOW_STALE_MS) {
+                // Left behind by a window that crashed or was killed
+                await unlink(path).catch(() => {});
+                continue;
+            }
+
+            heartbeats.push(heartbeat);
+        } catch {
+            // The file may be half written by another window, it'll be readable on the next tick
+        }
+    }
+
+    return heartbeats;
+}
+
+// Every window runs the same election over the same files, so they agree on the leader:
+// the focused window wins, otherwise the most recently active one, ties broken by window ID
+async function elect() {
+    try {
+        await writeHeartbeat();
+        const heartbeats = await readHeartbeats();
+        liveWindows = Math.max(1, heartbeats.length);
+
+        const winner = heartbeats.sort(
+            (a, b) =>
+                Number(b.focused) - Number(a.focused) ||
+                b.lastActiveAt - a.lastActiveAt ||
+                a.windowId.localeCompare(b.windowId),
+        )[0];
+        const wasLeader = leader;
+        leader = !winner || winner.windowId === windowId;
+
+        if (leader !== wasLeader) {
+            log(LogLevel.Info, leader ? 'This window is now reporting status' : 'Another window took over reporting status');
+            onLeadershipChange?.(leader);
+        }
+    } catch (error) {
+        // Without shared storage every window reports, same as before coordination existed
+        leader = true;
+        log(LogLevel.Warn, `Window coordination failed: ${error as string}`);
+    }
+}
+
+export function initWindowCoordinator(context: ExtensionContext, onChange: (isLeader: boolean) => void) {
+    windowsDir = join(context.globalStorageUri.fsPath, WINDOWS_DIR_NAME);
+    onLeadershipChange = onChange;
+
+    void elect();
+    timer = setInterval(() => void elect(), WINDOW_HEARTBEAT_INTERVAL_MS);
+}
+
+export function setWindowFocused(isFocused: boolean) {
+    focused = isFocused;
+    if (isFocused) {
+        lastActiveAt = Date.now();
+    }
+
+    void elect();
+}
+
+export async function disposeWindowCoordinator() {
+    clearInterval(timer);
+    timer = undefined;
+    onLeadershipChange = undefined;
+
+    if (windowsDir) {
+        await unlink(join(windowsDir, `${windowId}.json`)).catch(() => {});
+    }
+}